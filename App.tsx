@@ -1,8 +1,11 @@
 import React, { useState, useEffect, createContext, useContext, useCallback } from 'react';
 import { HashRouter, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { User, AuthResponse } from './types';
-import { api } from './services/api';
+import { session } from './services/session';
 import { DebugConsole } from './components/DebugConsole';
+import { Notices } from './components/Notices';
+import { ActivationBanner } from './components/ActivationBanner';
+import { SessionExpiryModal } from './components/SessionExpiryModal';
 
 // --- Auth Context ---
 interface AuthContextType {
@@ -10,41 +13,45 @@ interface AuthContextType {
   token: string | null;
   login: (data: AuthResponse) => void;
   logout: () => void;
+  // Replaces the signed-in user's profile everywhere, e.g. after an account edit
+  updateUser: (user: User) => void;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType>(null!);
 
 const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  // Hydrate synchronously from the persisted session so protected routes don't bounce to /login
+  const [user, setUser] = useState<User | null>(() => session.get()?.user ?? null);
+  const [token, setToken] = useState<string | null>(() => session.getAccessToken());
 
   useEffect(() => {
-    // Check local storage on load
-    const storedToken = localStorage.getItem('access_token');
-    const storedUser = localStorage.getItem('user_data');
-    if (storedToken && storedUser) {
-      setToken(storedToken);
-      setUser(JSON.parse(storedUser));
-    }
+    // The session module is the source of truth; refreshes and expiry arrive here
+    return session.subscribe((event) => {
+      if (event.type === 'ended') {
+        setToken(null);
+        setUser(null);
+      } else {
+        setToken(event.session.accessToken);
+        setUser(event.session.user);
+      }
+    });
   }, []);
 
   const login = (data: AuthResponse) => {
-    setToken(data.access_token);
-    setUser(data.user);
-    localStorage.setItem('access_token', data.access_token);
-    localStorage.setItem('user_data', JSON.stringify(data.user));
+    session.start(data);
   };
 
   const logout = () => {
-    setToken(null);
-    setUser(null);
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('user_data');
+    session.end('logout');
+  };
+
+  const updateUser = (next: User) => {
+    session.updateUser(next);
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isAuthenticated: !!token }}>
+    <AuthContext.Provider value={{ user, token, login, logout, updateUser, isAuthenticated: !!token }}>
       {children}
     </AuthContext.Provider>
   );
@@ -56,6 +63,7 @@ export const useAuth = () => useContext(AuthContext);
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   return (
     <div className="min-h-screen bg-secondary-900 text-gray-100 font-sans selection:bg-primary-500 selection:text-white">
@@ -71,6 +79,12 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
               {user && (
                 <>
                    <span className="hidden md:block text-sm text-gray-400">Welcome, <span className="text-white">{user.name}</span></span>
+                   <button
+                    onClick={() => navigate('/account')}
+                    className="text-sm text-gray-300 hover:text-white transition-colors"
+                  >
+                    Account
+                  </button>
                    <button 
                     onClick={logout}
                     className="text-sm text-gray-300 hover:text-white transition-colors"
@@ -83,9 +97,12 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           </div>
         </div>
       </nav>
+      {user && !user.activated && location.pathname !== '/activate' && <ActivationBanner user={user} />}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {children}
       </main>
+      {user && <SessionExpiryModal user={user} />}
+      <Notices />
       <DebugConsole />
     </div>
   );
@@ -94,6 +111,10 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 // --- Pages Imports ---
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import ActivateAccount from './pages/ActivateAccount';
+import Account from './pages/Account';
 import Dashboard from './pages/Dashboard';
 import FilmDetails from './pages/FilmDetails';
 
@@ -116,6 +137,9 @@ const App: React.FC = () => {
           <Routes>
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Register />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/activate" element={<ActivateAccount />} />
             <Route 
               path="/" 
               element={
@@ -124,6 +148,14 @@ const App: React.FC = () => {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/account" 
+              element={
+                <ProtectedRoute>
+                  <Account />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/film/:id" 
               element={
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { User } from '../types';
+import { Button } from './Button';
+import { useResendActivation } from '../hooks/useResendActivation';
+
+interface ActivationBannerProps {
+  user: User;
+}
+
+// Shown to signed-in users who haven't activated yet; the watchlist stays locked until they do
+export const ActivationBanner: React.FC<ActivationBannerProps> = ({ user }) => {
+  const navigate = useNavigate();
+  const { resend, status, error } = useResendActivation();
+
+  return (
+    <div className="bg-amber-500/10 border-b border-amber-500/30">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+        <p className="text-amber-200">
+          {status === 'sent'
+            ? `A new activation email is on its way to ${user.email}.`
+            : status === 'failed'
+              ? error
+              : `Activate your account to use your watchlist. We sent a link to ${user.email}.`}
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <Button size="sm" variant="ghost" onClick={() => resend(user.email)} isLoading={status === 'sending'}>
+            Resend Email
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => navigate('/activate')}>
+            Enter Token
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,68 +1,301 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { subscribeToLogs, LogEntry } from '../services/api';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { logBuffer, LogEntry, RawRequest } from '../services/api';
+import { BUFFER_SIZES, LOG_LEVELS, LogLevel, LogType } from '../services/logger';
+import { buildHar } from '../services/har';
+import { RequestComposer } from './RequestComposer';
+import { FaultInjectionPanel } from './FaultInjectionPanel';
+import { faults } from '../services/faults';
+import { environments, getEnvironment, setEnvironment, subscribeToEnvironment, getApiUrl } from '../services/config';
+
+const LOG_TYPES: LogType[] = ['REQ', 'RES', 'ERR', 'INFO'];
+
+type StatusFilter = 'all' | '2xx' | '3xx' | '4xx' | '5xx' | 'failed';
+const STATUS_FILTERS: StatusFilter[] = ['all', '2xx', '3xx', '4xx', '5xx', 'failed'];
+
+// "/v1/films/42?page=2" and "/v1/films/7" are both the "/v1/films/:id" endpoint
+const endpointOf = (url: string) => {
+  try {
+    return new URL(url).pathname.replace(/\/\d+(?=\/|$)/g, '/:id');
+  } catch {
+    return url;
+  }
+};
+
+const matchesStatus = (log: LogEntry, filter: StatusFilter) => {
+  if (filter === 'all') return true;
+  // Only the outcome of a request has a status to match (or lacks one, when it failed)
+  if (!log.http || log.type === 'REQ') return false;
+  const { status } = log.http;
+  if (filter === 'failed') return status === undefined;
+  return status !== undefined && `${Math.floor(status / 100)}xx` === filter;
+};
+
+const matchesSearch = (log: LogEntry, query: string) => {
+  if (!query) return true;
+  const haystack = [
+    log.message,
+    log.http?.requestId,
+    typeof log.details === 'object' ? JSON.stringify(log.details) : log.details,
+  ].join(' ').toLowerCase();
+  return haystack.includes(query.toLowerCase());
+};
+
+const downloadHar = () => {
+  const har = buildHar(logBuffer.getExchanges());
+  const href = URL.createObjectURL(new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = `cinegraph-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href), 0);
+};
 
 export const DebugConsole: React.FC = () => {
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>(logBuffer.getEntries);
+  const [exchangeCount, setExchangeCount] = useState(logBuffer.getExchanges().length);
+  const [bufferSize, setBufferSize] = useState(logBuffer.getSize);
+  const [level, setLevel] = useState<LogLevel>(logBuffer.getLevel);
+  const [persistent, setPersistent] = useState(logBuffer.isPersistent);
   const [isOpen, setIsOpen] = useState(false);
+  const [envId, setEnvId] = useState(getEnvironment().id);
   const endRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    const unsubscribe = subscribeToLogs((log) => {
-      setLogs(prev => [...prev, log].slice(-50)); // Keep last 50
+  // --- Filters ---
+  const [types, setTypes] = useState<LogType[]>(LOG_TYPES);
+  const [endpoint, setEndpoint] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+
+  // The side panel: the composer (keyed so picking another request starts it fresh) or fault injection
+  const [panel, setPanel] = useState<{ kind: 'composer'; key: string; draft: RawRequest } | { kind: 'faults' } | null>(null);
+  const [activeFaults, setActiveFaults] = useState(faults.activeCount);
+
+  useEffect(() => logBuffer.subscribe(() => {
+    setLogs(logBuffer.getEntries());
+    setExchangeCount(logBuffer.getExchanges().length);
+    setBufferSize(logBuffer.getSize());
+    setLevel(logBuffer.getLevel());
+    setPersistent(logBuffer.isPersistent());
+  }), []);
+
+  useEffect(() => subscribeToEnvironment(env => setEnvId(env.id)), []);
+
+  useEffect(() => faults.subscribe(() => setActiveFaults(faults.activeCount())), []);
+
+  const handleEnvironmentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = environments.find(env => env.id === e.target.value);
+    if (!next) return;
+    if (!window.confirm(`Switch API to ${next.label}? You will be signed out.`)) return;
+    setEnvironment(next.id);
+  };
+
+  // Pre-fills the composer from the captured exchange (with its body), or just the URL
+  // once the exchange has dropped out of the buffer
+  const openInComposer = (log: LogEntry) => {
+    if (!log.http) return;
+    const exchange = logBuffer.getExchanges().find(x => x.requestId === log.http!.requestId);
+    setPanel({
+      kind: 'composer',
+      key: log.http.requestId,
+      draft: exchange?.request ?? { method: log.http.method, url: log.http.url },
     });
-    return unsubscribe;
-  }, []);
+  };
+
+  const toggleType = (type: LogType) => {
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const endpoints = useMemo(
+    () => [...new Set(logs.filter(l => l.http).map(l => endpointOf(l.http!.url)))].sort(),
+    [logs]
+  );
+
+  const visible = useMemo(() => logs.filter(log =>
+    types.includes(log.type)
+    && (!endpoint || (log.http && endpointOf(log.http.url) === endpoint))
+    && matchesStatus(log, status)
+    && matchesSearch(log, search.trim())
+  ), [logs, types, endpoint, status, search]);
+
+  const filtered = visible.length !== logs.length;
 
   useEffect(() => {
     if (isOpen && endRef.current) {
       endRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [logs, isOpen]);
+  }, [visible, isOpen]);
 
   if (!isOpen) {
     return (
-      <button 
+      <button
         onClick={() => setIsOpen(true)}
         className="fixed bottom-4 right-4 bg-black/80 text-green-400 font-mono text-xs px-3 py-2 rounded-lg border border-green-900 shadow-xl z-[100] hover:bg-black transition-colors"
       >
         Debug Logs ({logs.length})
+        {activeFaults > 0 && <span className="text-red-400"> · faults on</span>}
       </button>
     );
   }
 
+  const selectClass = 'bg-black border border-green-800 rounded px-2 py-0.5 text-green-400 outline-none';
+
   return (
-    <div className="fixed bottom-0 left-0 right-0 h-64 bg-black/95 text-green-500 font-mono text-xs z-[100] border-t-2 border-green-800 flex flex-col shadow-2xl">
+    <div className="fixed bottom-0 left-0 right-0 h-80 bg-black/95 text-green-500 font-mono text-xs z-[100] border-t-2 border-green-800 flex flex-col shadow-2xl">
       <div className="flex items-center justify-between px-4 py-2 bg-green-900/20 border-b border-green-800">
         <span className="font-bold">API DEBUG CONSOLE</span>
-        <div className="flex gap-2">
-            <button onClick={() => setLogs([])} className="hover:text-white px-2">Clear</button>
+        <div className="flex items-center gap-2">
+            <select
+              value={envId}
+              onChange={handleEnvironmentChange}
+              title={getApiUrl()}
+              className={selectClass}
+            >
+              {environments.map(env => (
+                <option key={env.id} value={env.id}>{env.label}</option>
+              ))}
+            </select>
+            <select
+              value={bufferSize}
+              onChange={(e) => logBuffer.setSize(Number(e.target.value))}
+              title="How many entries to keep"
+              className={selectClass}
+            >
+              {BUFFER_SIZES.map(size => (
+                <option key={size} value={size}>Keep {size}</option>
+              ))}
+            </select>
+            <select
+              value={level}
+              onChange={(e) => logBuffer.setLevel(e.target.value as LogLevel)}
+              title="Lowest level that gets recorded"
+              className={selectClass}
+            >
+              {LOG_LEVELS.map(l => (
+                <option key={l} value={l}>Level: {l}</option>
+              ))}
+            </select>
+            {logBuffer.canPersist() && (
+              <label className="flex items-center gap-1 px-1" title="Keep logs in IndexedDB so they survive reloads and crashes">
+                <input type="checkbox" checked={persistent} onChange={(e) => logBuffer.setPersistent(e.target.checked)} />
+                Persist
+              </label>
+            )}
+            <button
+              onClick={() => setPanel({ kind: 'composer', key: `new-${Date.now()}`, draft: { method: 'GET', url: `${getApiUrl()}/films` } })}
+              className="hover:text-white px-2"
+            >
+              New Request
+            </button>
+            {faults.available && (
+              <button
+                onClick={() => setPanel(panel?.kind === 'faults' ? null : { kind: 'faults' })}
+                className={`px-2 hover:text-white ${activeFaults > 0 ? 'text-red-400 font-bold' : ''}`}
+              >
+                Faults{activeFaults > 0 && ` (${activeFaults} on)`}
+              </button>
+            )}
+            <button
+              onClick={downloadHar}
+              disabled={exchangeCount === 0}
+              title="Download the captured requests as a HAR file"
+              className="hover:text-white px-2 disabled:opacity-40 disabled:hover:text-green-500"
+            >
+              Export HAR ({exchangeCount})
+            </button>
+            <button onClick={logBuffer.clear} className="hover:text-white px-2">Clear</button>
             <button onClick={() => setIsOpen(false)} className="hover:text-white px-2">Close</button>
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto p-4 space-y-2">
-        {logs.length === 0 && <div className="opacity-50 italic">Waiting for requests...</div>}
-        {logs.map((log) => (
-          <div key={log.id} className="border-b border-green-900/30 pb-1">
-            <div className="flex gap-2 mb-1">
-              <span className="opacity-50">[{log.timestamp}]</span>
-              <span className={`font-bold ${
-                log.type === 'ERR' ? 'text-red-500' : 
-                log.type === 'REQ' ? 'text-blue-400' : 
-                'text-yellow-400'
-              }`}>
-                {log.type}
-              </span>
-              <span className="break-all">{log.message}</span>
+      <div className="flex flex-wrap items-center gap-2 px-4 py-1.5 border-b border-green-900/60">
+        {LOG_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-2 py-0.5 rounded border ${types.includes(type) ? 'border-green-600 text-green-300 bg-green-900/40' : 'border-green-900 text-green-800'}`}
+          >
+            {type}
+          </button>
+        ))}
+        <select value={endpoint} onChange={(e) => setEndpoint(e.target.value)} className={selectClass}>
+          <option value="">All endpoints</option>
+          {endpoints.map(path => (
+            <option key={path} value={path}>{path}</option>
+          ))}
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)} className={selectClass}>
+          {STATUS_FILTERS.map(s => (
+            <option key={s} value={s}>{s === 'all' ? 'Any status' : s === 'failed' ? 'No response' : s}</option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search messages, bodies, request ids"
+          className="flex-1 min-w-[12rem] bg-black border border-green-800 rounded px-2 py-0.5 text-green-300 placeholder-green-900 outline-none"
+        />
+        {filtered && <span className="opacity-60">{visible.length} of {logs.length}</span>}
+      </div>
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {logs.length === 0 && <div className="opacity-50 italic">Waiting for requests...</div>}
+          {logs.length > 0 && visible.length === 0 && <div className="opacity-50 italic">Nothing matches these filters.</div>}
+          {visible.map((log, index) => (
+            <div key={log.id} className={`border-b border-green-900/30 pb-1 ${log.restored ? 'opacity-60' : ''}`}>
+              {log.restored && index === 0 && (
+                <div className="text-center opacity-70 pb-1">--- earlier page loads ---</div>
+              )}
+              {!log.restored && index > 0 && visible[index - 1].restored && (
+                <div className="text-center opacity-70 pb-1">--- this page load ---</div>
+              )}
+              <div className="flex gap-2 mb-1">
+                <span className="opacity-50">[{log.timestamp}]</span>
+                <span className={`font-bold ${
+                  log.type === 'ERR' ? 'text-red-500' :
+                  log.type === 'REQ' ? 'text-blue-400' :
+                  log.type === 'RES' && (log.http?.status ?? 0) >= 400 ? 'text-orange-400' :
+                  'text-yellow-400'
+                }`}>
+                  {log.type}
+                </span>
+                {log.http && (
+                  <button
+                    onClick={() => setSearch(log.http!.requestId)}
+                    title="Show only this request"
+                    className="opacity-50 hover:opacity-100"
+                  >
+                    #{log.http.requestId}
+                  </button>
+                )}
+                {log.http ? (
+                  <button
+                    onClick={() => openInComposer(log)}
+                    title="Open in the request composer"
+                    className="break-all text-left hover:text-white hover:underline"
+                  >
+                    {log.message}
+                  </button>
+                ) : (
+                  <span className="break-all">{log.message}</span>
+                )}
+              </div>
+              {log.details && (
+                <pre className="ml-24 text-[10px] opacity-70 whitespace-pre-wrap break-all">
+                  {typeof log.details === 'object' ? JSON.stringify(log.details, null, 2) : log.details}
+                </pre>
+              )}
             </div>
-            {log.details && (
-              <pre className="ml-24 text-[10px] opacity-70 whitespace-pre-wrap break-all">
-                {typeof log.details === 'object' ? JSON.stringify(log.details, null, 2) : log.details}
-              </pre>
-            )}
+          ))}
+          <div ref={endRef} />
+        </div>
+        {panel && (
+          <div className="w-1/2 overflow-y-auto p-4 border-l border-green-800">
+            {panel.kind === 'composer'
+              ? <RequestComposer key={panel.key} draft={panel.draft} onClose={() => setPanel(null)} />
+              : <FaultInjectionPanel onClose={() => setPanel(null)} />}
           </div>
-        ))}
-        <div ref={endRef} />
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,153 @@
+import React, { useId, useState } from 'react';
+import { FacetField } from '../services/store';
+import { useFacetSuggestions } from '../hooks/useFacetSuggestions';
+
+interface FacetInputProps {
+  label: string;
+  field: FacetField;
+  token: string | null;
+  placeholder?: string;
+  // Chosen values, shown as chips
+  values: string[];
+  onChange: (values: string[]) => void;
+  // What's typed but not yet a chip
+  text: string;
+  onTextChange: (text: string) => void;
+}
+
+// Multi-value filter field with typeahead: Up/Down pick a suggestion, Enter or comma
+// turn it (or the typed text) into a chip, Backspace on an empty field takes the last one back
+export const FacetInput: React.FC<FacetInputProps> = ({
+  label,
+  field,
+  token,
+  placeholder,
+  values,
+  onChange,
+  text,
+  onTextChange,
+}) => {
+  const id = useId();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const suggestions = useFacetSuggestions(token, field, text, values);
+  const showList = open && suggestions.length > 0;
+
+  const add = (value: string) => {
+    const trimmed = value.trim();
+    onTextChange('');
+    setHighlighted(-1);
+    if (!trimmed || values.some(v => v.toLowerCase() === trimmed.toLowerCase())) return;
+    onChange([...values, trimmed]);
+  };
+
+  const remove = (value: string) => onChange(values.filter(v => v !== value));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // Wraps around through "nothing picked" (-1), where Enter takes the typed text
+      setHighlighted(prev => {
+        const next = prev + step;
+        if (next >= suggestions.length) return -1;
+        if (next < -1) return suggestions.length - 1;
+        return next;
+      });
+      return;
+    }
+    if (e.key === 'Enter' || e.key === ',') {
+      const choice = showList && highlighted >= 0 ? suggestions[highlighted] : text;
+      // An empty Enter still submits the surrounding form
+      if (!choice.trim()) {
+        if (e.key === ',') e.preventDefault();
+        return;
+      }
+      e.preventDefault();
+      add(choice);
+      return;
+    }
+    if (e.key === 'Escape' && showList) {
+      e.preventDefault();
+      setOpen(false);
+      setHighlighted(-1);
+      return;
+    }
+    if (e.key === 'Backspace' && !text && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <label htmlFor={`${id}-input`} className="block text-sm font-medium text-gray-300 mb-1.5 ml-1">
+        {label}
+      </label>
+      <div className="relative">
+        <div className="w-full flex flex-wrap items-center gap-1.5 bg-secondary-900 border border-secondary-600 rounded-lg px-2 py-1.5 min-h-[46px] transition-all duration-200 hover:border-secondary-500 focus-within:border-primary-500 focus-within:ring-2 focus-within:ring-primary-500/20">
+          {values.map(value => (
+            <span key={value} className="flex items-center gap-1 bg-secondary-700 border border-secondary-600 text-gray-200 text-xs px-2 py-1 rounded-full">
+              {value}
+              <button
+                type="button"
+                onClick={() => remove(value)}
+                className="text-gray-400 hover:text-white"
+                aria-label={`Remove ${value}`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+          <input
+            id={`${id}-input`}
+            role="combobox"
+            aria-expanded={showList}
+            aria-controls={`${id}-list`}
+            aria-autocomplete="list"
+            aria-activedescendant={showList && highlighted >= 0 ? `${id}-option-${highlighted}` : undefined}
+            autoComplete="off"
+            value={text}
+            placeholder={values.length === 0 ? placeholder : ''}
+            onChange={(e) => {
+              onTextChange(e.target.value);
+              setOpen(true);
+              setHighlighted(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setOpen(true)}
+            onBlur={() => {
+              setOpen(false);
+              setHighlighted(-1);
+            }}
+            className="flex-1 min-w-[6rem] bg-transparent px-2 py-1 text-white placeholder-gray-600 outline-none"
+          />
+        </div>
+        {showList && (
+          <ul
+            id={`${id}-list`}
+            role="listbox"
+            className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-secondary-800 border border-secondary-600 rounded-lg shadow-xl py-1"
+          >
+            {suggestions.map((suggestion, i) => (
+              <li
+                key={suggestion}
+                id={`${id}-option-${i}`}
+                role="option"
+                aria-selected={i === highlighted}
+                // Keeps focus in the input, which would otherwise close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => add(suggestion)}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`px-3 py-1.5 text-sm cursor-pointer ${i === highlighted ? 'bg-primary-600 text-white' : 'text-gray-300'}`}
+              >
+                {suggestion}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
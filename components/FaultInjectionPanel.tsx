@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { faults, FaultFailure, FaultRule, FaultState, FAULT_STATUS_CODES } from '../services/faults';
+
+const METHODS = ['*', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Suggestions for the path field; anything else can be typed in
+const KNOWN_ENDPOINTS = [
+  '/films',
+  '/films/:id',
+  '/watchlist',
+  '/watchlist/:id',
+  '/recommendations',
+  '/tokens/authentication',
+  '/tokens/refresh',
+  '/users',
+  '/users/me',
+];
+
+const FAILURES: { value: FaultFailure; label: string }[] = [
+  { value: 'status', label: 'Error status' },
+  { value: 'malformed-json', label: 'Malformed JSON' },
+  { value: 'empty-body', label: 'Empty body' },
+];
+
+const inputClass = 'bg-black border border-green-800 rounded px-2 py-0.5 text-green-300 outline-none';
+
+const RuleEditor: React.FC<{ rule: FaultRule }> = ({ rule }) => {
+  const update = (updates: Partial<FaultRule>) => faults.updateRule(rule.id, updates);
+
+  const toggleStatus = (code: number) => update({
+    statusCodes: rule.statusCodes.includes(code)
+      ? rule.statusCodes.filter(c => c !== code)
+      : [...rule.statusCodes, code].sort((a, b) => a - b),
+  });
+
+  return (
+    <div className={`p-2 rounded border space-y-2 ${rule.enabled ? 'border-green-700' : 'border-green-900 opacity-60'}`}>
+      <div className="flex gap-2 items-center">
+        <input type="checkbox" checked={rule.enabled} onChange={(e) => update({ enabled: e.target.checked })} title="Rule enabled" />
+        <select value={rule.method} onChange={(e) => update({ method: e.target.value })} className={inputClass}>
+          {METHODS.map(m => <option key={m} value={m}>{m === '*' ? 'Any' : m}</option>)}
+        </select>
+        <input
+          value={rule.path}
+          onChange={(e) => update({ path: e.target.value })}
+          list="fault-endpoints"
+          placeholder="Every endpoint"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button onClick={() => faults.removeRule(rule.id)} className="hover:text-white px-1" title="Remove rule">✕</button>
+      </div>
+      <div className="flex flex-wrap gap-3 items-center">
+        <label className="flex items-center gap-1">
+          Delay
+          <input
+            type="number"
+            min={0}
+            step={250}
+            value={rule.latencyMs}
+            onChange={(e) => update({ latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${inputClass} w-20`}
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-1">
+          Fail
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={rule.failureRate}
+            onChange={(e) => update({ failureRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+            className={`${inputClass} w-16`}
+          />
+          % with
+        </label>
+        <select value={rule.failure} onChange={(e) => update({ failure: e.target.value as FaultFailure })} className={inputClass}>
+          {FAILURES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+      </div>
+      {rule.failure === 'status' && (
+        <div className="flex flex-wrap gap-1">
+          {FAULT_STATUS_CODES.map(code => (
+            <button
+              key={code}
+              onClick={() => toggleStatus(code)}
+              className={`px-1.5 rounded border ${rule.statusCodes.includes(code) ? 'border-red-600 text-red-300 bg-red-900/30' : 'border-green-900 text-green-800'}`}
+            >
+              {code}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Debug Console side panel for setting up injected latency and failures
+export const FaultInjectionPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [state, setState] = useState<FaultState>(faults.getState);
+
+  useEffect(() => faults.subscribe(setState), []);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-bold">FAULT INJECTION</span>
+        <button onClick={onClose} className="hover:text-white px-2">Close</button>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={state.enabled} onChange={(e) => faults.setEnabled(e.target.checked)} />
+        <span className={state.enabled ? 'text-red-400 font-bold' : ''}>
+          {state.enabled ? 'Injecting faults' : 'Off'}
+        </span>
+        <span className="opacity-50">Rules stay saved across reloads.</span>
+      </label>
+
+      <datalist id="fault-endpoints">
+        {KNOWN_ENDPOINTS.map(path => <option key={path} value={path} />)}
+      </datalist>
+
+      {state.rules.length === 0 && <div className="opacity-50 italic">No rules yet.</div>}
+      {state.rules.map(rule => <RuleEditor key={rule.id} rule={rule} />)}
+
+      <button onClick={faults.addRule} className="opacity-70 hover:opacity-100">+ rule</button>
+    </div>
+  );
+};
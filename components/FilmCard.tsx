@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Film, WatchlistEntry } from '../types';
+import { WatchlistSyncState } from '../services/store';
 import { Button } from './Button';
 import { geminiService } from '../services/gemini';
 import { useNavigate } from 'react-router-dom';
@@ -10,6 +11,8 @@ interface FilmCardProps {
   onAddToWatchlist?: (filmId: number) => void;
   onRemoveFromWatchlist?: (entryId: number) => void;
   watchlistEntry?: WatchlistEntry;
+  // A watchlist change for this film is being saved, or waits for the network
+  syncState?: WatchlistSyncState;
   showAi?: boolean;
 }
 
@@ -18,6 +21,7 @@ export const FilmCard: React.FC<FilmCardProps> = ({
   onAddToWatchlist, 
   onRemoveFromWatchlist,
   watchlistEntry,
+  syncState,
   showAi = true
 }) => {
   const [aiInsight, setAiInsight] = useState<string | null>(null);
@@ -42,10 +46,17 @@ export const FilmCard: React.FC<FilmCardProps> = ({
     navigate(`/film/${film.id}`);
   };
 
+  // Enter opens the card itself; keys pressed on its buttons are theirs
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && e.target === e.currentTarget) handleCardClick();
+  };
+
   return (
     <div 
-      className="group relative bg-secondary-800 rounded-xl overflow-hidden shadow-lg hover:shadow-2xl hover:scale-[1.02] transition-all duration-300 border border-secondary-700 flex flex-col h-full cursor-pointer"
+      className="group relative bg-secondary-800 rounded-xl overflow-hidden shadow-lg hover:shadow-2xl hover:scale-[1.02] focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 transition-all duration-300 border border-secondary-700 flex flex-col h-full cursor-pointer"
       onClick={handleCardClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
     >
       {/* Image Container */}
       <div className="relative aspect-[2/3] overflow-hidden">
@@ -60,6 +71,20 @@ export const FilmCard: React.FC<FilmCardProps> = ({
         <div className="absolute top-2 right-2 bg-yellow-500/90 text-black font-bold text-xs px-2 py-1 rounded shadow-md backdrop-blur-sm">
           ★ {film.rating}
         </div>
+
+        {syncState === 'saving' && (
+          <div className="absolute top-2 left-2 bg-secondary-900/80 text-gray-300 text-[10px] uppercase tracking-wider px-2 py-1 rounded border border-secondary-600 backdrop-blur-sm animate-pulse">
+            Saving…
+          </div>
+        )}
+        {syncState === 'queued' && (
+          <div
+            className="absolute top-2 left-2 bg-amber-500/90 text-black text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded shadow-md backdrop-blur-sm"
+            title="Saved on this device; will sync when you're back online"
+          >
+            Pending sync
+          </div>
+        )}
         
         <div className="absolute bottom-0 left-0 p-4 w-full">
           <h3 className="text-lg font-bold text-white leading-tight mb-1 truncate">{film.title}</h3>
@@ -138,4 +163,23 @@ export const FilmCard: React.FC<FilmCardProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Stands in for a card while its film is loading, at the same size
+export const FilmCardSkeleton: React.FC = () => (
+  <div className="bg-secondary-800 rounded-xl overflow-hidden border border-secondary-700 flex flex-col h-full animate-pulse">
+    <div className="aspect-[2/3] bg-secondary-700" />
+    <div className="p-4 flex flex-col flex-grow space-y-3">
+      <div className="flex gap-1">
+        <div className="h-4 w-14 bg-secondary-700 rounded-full" />
+        <div className="h-4 w-12 bg-secondary-700 rounded-full" />
+      </div>
+      <div className="space-y-2 flex-grow">
+        <div className="h-3 bg-secondary-700 rounded" />
+        <div className="h-3 bg-secondary-700 rounded" />
+        <div className="h-3 w-2/3 bg-secondary-700 rounded" />
+      </div>
+      <div className="h-8 bg-secondary-700 rounded-lg" />
+    </div>
+  </div>
+);
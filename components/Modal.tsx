@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 
 interface ModalProps {
@@ -6,16 +6,30 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: React.ReactNode;
+  // false for prompts that need an explicit answer: no close button, backdrop or Escape
+  dismissible?: boolean;
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
+// Open modals, most recent last; only the topmost one answers Escape, so closing a
+// prompt stacked on top of another modal leaves the one underneath alone
+const openModals: symbol[] = [];
+
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, dismissible = true }) => {
+  const id = useRef(Symbol(title)).current;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    openModals.push(id);
+    return () => { openModals.splice(openModals.indexOf(id), 1); };
+  }, [isOpen, id]);
+
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') onClose();
+      if (e.key === 'Escape' && dismissible && openModals[openModals.length - 1] === id) onClose();
     };
     if (isOpen) window.addEventListener('keydown', handleEsc);
     return () => window.removeEventListener('keydown', handleEsc);
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, dismissible, id]);
 
   if (!isOpen) return null;
 
@@ -23,17 +37,19 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
       <div 
         className="absolute inset-0 bg-black/70 backdrop-blur-sm transition-opacity" 
-        onClick={onClose}
+        onClick={dismissible ? onClose : undefined}
       />
       <div className="relative bg-secondary-800 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-secondary-700 transform transition-all scale-100">
         <div className="flex items-center justify-between px-6 py-4 border-b border-secondary-700">
           <h3 className="text-lg font-semibold text-white">{title}</h3>
-          <button 
-            onClick={onClose}
-            className="text-gray-400 hover:text-white focus:outline-none"
-          >
-            ✕
-          </button>
+          {dismissible && (
+            <button 
+              onClick={onClose}
+              className="text-gray-400 hover:text-white focus:outline-none"
+            >
+              ✕
+            </button>
+          )}
         </div>
         <div className="p-6">
           {children}
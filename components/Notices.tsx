@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { notices, Notice } from '../services/notices';
+
+const toneClasses: Record<Notice['tone'], string> = {
+  info: 'bg-secondary-800 border-secondary-600 text-gray-200',
+  success: 'bg-green-900/90 border-green-700 text-green-100',
+  error: 'bg-red-900/90 border-red-700 text-red-100',
+};
+
+export const Notices: React.FC = () => {
+  const [items, setItems] = useState<Notice[]>(notices.getAll());
+
+  useEffect(() => notices.subscribe(setItems), []);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-[60] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+      {items.map(notice => (
+        <div
+          key={notice.id}
+          className={`flex items-start gap-3 px-4 py-3 rounded-lg border shadow-xl backdrop-blur-sm text-sm animate-in slide-in-from-right-4 duration-200 ${toneClasses[notice.tone]}`}
+        >
+          <span className="flex-1">{notice.message}</span>
+          <button
+            onClick={() => notices.dismiss(notice.id)}
+            className="opacity-60 hover:opacity-100 focus:outline-none"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface RangeInputProps {
+  label: string;
+  // Input names, so one change handler can serve both ends (and other fields)
+  minName: string;
+  maxName: string;
+  minValue: string;
+  maxValue: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  minPlaceholder?: string;
+  maxPlaceholder?: string;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+}
+
+const inputClass = 'w-full min-w-0 bg-secondary-900 border border-secondary-600 rounded-lg px-3 py-2.5 text-white placeholder-gray-600 transition-all duration-200 outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 hover:border-secondary-500';
+
+// A from–to pair of inputs under one label; either end may be left empty
+export const RangeInput: React.FC<RangeInputProps> = ({
+  label,
+  minName,
+  maxName,
+  minValue,
+  maxValue,
+  onChange,
+  minPlaceholder = 'Any',
+  maxPlaceholder = 'Any',
+  inputMode = 'numeric',
+}) => (
+  <fieldset className="w-full">
+    <legend className="block text-sm font-medium text-gray-300 mb-1.5 ml-1">{label}</legend>
+    <div className="flex items-center gap-2">
+      <input
+        name={minName}
+        value={minValue}
+        onChange={onChange}
+        placeholder={minPlaceholder}
+        inputMode={inputMode}
+        aria-label={`${label} from`}
+        className={inputClass}
+      />
+      <span className="text-gray-500">–</span>
+      <input
+        name={maxName}
+        value={maxValue}
+        onChange={onChange}
+        placeholder={maxPlaceholder}
+        inputMode={inputMode}
+        aria-label={`${label} to`}
+        className={inputClass}
+      />
+    </div>
+  </fieldset>
+);
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { api, RawRequest, RawResponse, isAbortError } from '../services/api';
+import { session } from '../services/session';
+import { REDACTED } from '../services/redact';
+import { getApiUrl, isApiUrl } from '../services/config';
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH'];
+
+interface QueryParam {
+  name: string;
+  value: string;
+}
+
+interface RequestComposerProps {
+  draft: RawRequest;
+  onClose: () => void;
+}
+
+const hasScheme = (url: string) => /^[a-z][a-z0-9+.-]*:\/\//i.test(url);
+
+// Paths on the active API are edited relative to it; anything else keeps its full URL
+const splitUrl = (url: string) => {
+  const [path, query = ''] = url.split('?');
+  const base = getApiUrl();
+  return {
+    path: path.startsWith(base) ? path.slice(base.length) || '/' : path,
+    params: [...new URLSearchParams(query)].map(([name, value]) => ({ name, value })),
+  };
+};
+
+const buildUrl = (path: string, params: QueryParam[]) => {
+  const url = hasScheme(path) ? path : `${getApiUrl()}${path.startsWith('/') ? '' : '/'}${path}`;
+  const query = new URLSearchParams(params.filter(p => p.name).map(p => [p.name, p.value])).toString();
+  return query ? `${url}?${query}` : url;
+};
+
+const prettyJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+// Fields of a logged body whose values were redacted before it was captured; sending
+// them as they are would put "[redacted]" in the request, so they have to be re-entered
+const redactedFields = (body: string): string[] => {
+  const found = new Set<string>();
+  const walk = (value: unknown, key: string) => {
+    if (value === REDACTED) found.add(key || 'body');
+    else if (Array.isArray(value)) value.forEach(item => walk(item, key));
+    else if (value && typeof value === 'object') Object.entries(value).forEach(([k, v]) => walk(v, k));
+  };
+  try {
+    walk(JSON.parse(body), '');
+  } catch {
+    if (body.includes(REDACTED)) found.add('body');
+  }
+  return [...found];
+};
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// The live token goes into the command, so it runs as-is from a terminal; like
+// api.sendRaw, only for the active API
+const toCurl = (method: string, url: string, body: string) => {
+  const parts = ['curl', '-X', method, shellQuote(url)];
+  const token = isApiUrl(url) ? session.getAccessToken() : null;
+  if (token) parts.push('-H', shellQuote(`Authorization: Bearer ${token}`));
+  if (body) parts.push('-H', shellQuote('Content-Type: application/json'), '--data', shellQuote(body));
+  return parts.join(' ');
+};
+
+// Edits and re-sends a logged request (or a new one) through the app's own client
+export const RequestComposer: React.FC<RequestComposerProps> = ({ draft, onClose }) => {
+  const initial = splitUrl(draft.url);
+  const [method, setMethod] = useState(draft.method.toUpperCase());
+  const [path, setPath] = useState(initial.path);
+  const [params, setParams] = useState<QueryParam[]>(initial.params);
+  const [body, setBody] = useState(draft.body ? prettyJson(draft.body) : '');
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const [response, setResponse] = useState<RawResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const withBody = METHODS_WITH_BODY.includes(method);
+  const url = buildUrl(path, params);
+  const redacted = withBody ? redactedFields(body) : [];
+
+  // Compact JSON, or an error message when the body doesn't parse
+  const readBody = (): { body: string } | { error: string } => {
+    if (!withBody || !body.trim()) return { body: '' };
+    if (redacted.length > 0) return { error: `Re-enter ${redacted.join(', ')} before sending.` };
+    try {
+      return { body: JSON.stringify(JSON.parse(body)) };
+    } catch {
+      return { error: 'Body is not valid JSON.' };
+    }
+  };
+
+  const updateParam = (index: number, field: keyof QueryParam, value: string) => {
+    setParams(prev => prev.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  const handleSend = async () => {
+    const payload = readBody();
+    if ('error' in payload) {
+      setError(payload.error);
+      return;
+    }
+    setError('');
+    setSending(true);
+    try {
+      setResponse(await api.sendRaw({ method, url, body: payload.body }));
+    } catch (err) {
+      setResponse(null);
+      if (!isAbortError(err)) setError((err instanceof Error && err.message) || 'Request failed.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    const payload = readBody();
+    if ('error' in payload) {
+      setError(payload.error);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(toCurl(method, url, payload.body));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy to the clipboard.');
+    }
+  };
+
+  const inputClass = 'bg-black border border-green-800 rounded px-2 py-0.5 text-green-300 outline-none';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-bold">REQUEST COMPOSER</span>
+        <button onClick={onClose} className="hover:text-white px-2">Close</button>
+      </div>
+
+      <div className="flex gap-2">
+        <select value={method} onChange={(e) => setMethod(e.target.value)} className={inputClass}>
+          {METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <input
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          title={url}
+          placeholder="/films"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+      </div>
+
+      <div className="space-y-1">
+        {params.map((param, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              value={param.name}
+              onChange={(e) => updateParam(index, 'name', e.target.value)}
+              placeholder="name"
+              className={`${inputClass} w-1/3`}
+            />
+            <input
+              value={param.value}
+              onChange={(e) => updateParam(index, 'value', e.target.value)}
+              placeholder="value"
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button onClick={() => setParams(prev => prev.filter((_, i) => i !== index))} className="hover:text-white px-1">✕</button>
+          </div>
+        ))}
+        <button onClick={() => setParams(prev => [...prev, { name: '', value: '' }])} className="opacity-70 hover:opacity-100">
+          + query param
+        </button>
+      </div>
+
+      {withBody && (
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={5}
+          spellCheck={false}
+          placeholder="JSON body"
+          className={`${inputClass} w-full resize-y`}
+        />
+      )}
+
+      {redacted.length > 0 && (
+        <div className="text-yellow-400">
+          Redacted when logged: {redacted.join(', ')}. Replace each {REDACTED} with the real value.
+        </div>
+      )}
+
+      {!isApiUrl(url) && (
+        <div className="text-yellow-400">Not the active API: sent without the session token.</div>
+      )}
+
+      {error && <div className="text-red-500">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSend}
+          disabled={sending}
+          className="px-3 py-0.5 rounded border border-green-600 text-green-300 bg-green-900/40 hover:text-white disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Send'}
+        </button>
+        <button onClick={handleCopy} className="px-3 py-0.5 rounded border border-green-800 hover:text-white">
+          {copied ? 'Copied' : 'Copy as curl'}
+        </button>
+      </div>
+
+      {response && (
+        <div className="pt-2 border-t border-green-900/60">
+          <div className="mb-1">
+            <span className={`font-bold ${response.status >= 400 ? 'text-orange-400' : 'text-yellow-400'}`}>
+              {response.status} {response.statusText}
+            </span>
+            <span className="opacity-50"> in {response.durationMs}ms</span>
+          </div>
+          <pre className="text-[10px] opacity-80 whitespace-pre-wrap break-all">
+            {response.body ? prettyJson(response.body) : '<empty body>'}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
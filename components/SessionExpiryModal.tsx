@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { User } from '../types';
+import { api } from '../services/api';
+import { reauth, ReauthState } from '../services/reauth';
+import { useAuth } from '../App';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+
+interface SessionExpiryModalProps {
+  user: User;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Warns before the session lapses and takes the password again in place. It sits on top
+// of the page rather than replacing it, so open forms and filters are still there after.
+export const SessionExpiryModal: React.FC<SessionExpiryModalProps> = ({ user }) => {
+  const { login, logout } = useAuth();
+  const [state, setState] = useState<ReauthState>(reauth.getState);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => reauth.subscribe(setState), []);
+
+  // Tick the countdown while the warning is up
+  useEffect(() => {
+    if (state.status !== 'warning') return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.status]);
+
+  // Start every prompt clean
+  useEffect(() => {
+    if (state.status !== 'idle') return;
+    setPassword('');
+    setError('');
+  }, [state.status]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      setError('Password is required');
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      // Same user, so the session renews and any waiting requests go out again
+      login(await api.login(user.email, password));
+    } catch (err) {
+      setError((err instanceof Error && err.message) || 'Could not sign you in. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const required = state.status === 'required';
+
+  return (
+    <Modal
+      isOpen={state.status !== 'idle'}
+      onClose={reauth.dismissWarning}
+      title={required ? 'Session Expired' : 'Session Expiring'}
+      dismissible={!required}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-300">
+          {required
+            ? 'Your session has expired. Enter your password to carry on where you left off; whatever you were doing will be picked up again.'
+            : `Your session ends in ${formatRemaining((state.expiresAt ?? now) - now)}. Enter your password to stay signed in.`}
+        </p>
+        <Input
+          label="Password"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={password}
+          onChange={(e) => {
+            setPassword(e.target.value);
+            setError('');
+          }}
+          error={error}
+          touched={!!error}
+        />
+        <p className="text-xs text-gray-500 px-1">Signed in as {user.email}</p>
+        <div className="flex justify-end gap-3 pt-2">
+          {required ? (
+            <Button type="button" variant="ghost" onClick={logout}>Sign Out</Button>
+          ) : (
+            <Button type="button" variant="ghost" onClick={reauth.dismissWarning}>Not Now</Button>
+          )}
+          <Button type="submit" isLoading={loading}>
+            {required ? 'Sign In' : 'Stay Signed In'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
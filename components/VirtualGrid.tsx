@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// --- VIRTUAL GRID ---
+// The responsive card grid (1-4 columns, as grid-cols-1/sm:2/lg:3/xl:4 would give), with
+// only the rows near the viewport in the DOM. The page itself scrolls; rows are measured
+// as they render so cards of any height line up. Nearing the end asks for more, with
+// skeleton cards standing in while it arrives.
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => React.Key;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  renderSkeleton: () => React.ReactNode;
+  // Shown instead of the grid when there is nothing (and nothing on the way)
+  empty?: React.ReactNode;
+  loading?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  // Remembers row heights under this name, so a remounted grid (e.g. going back to the
+  // Dashboard) lays out exactly as before and a restored scroll position lands right
+  cacheKey?: string;
+}
+
+const GAP = 24; // gap-6
+const OVERSCAN_PX = 800;
+// Start loading once the last rendered row is this close to the end
+const LOAD_AHEAD_ROWS = 2;
+
+// Tailwind's sm / lg / xl breakpoints
+const columnsFor = (width: number) => width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 640 ? 2 : 1;
+
+// Before a row has been measured: a 2:3 poster plus the card body underneath
+const estimateRowHeight = (containerWidth: number, columns: number) =>
+  Math.round((containerWidth - GAP * (columns - 1)) / columns * 1.5 + 190);
+
+const heightCache = new Map<string, { columns: number; heights: Map<number, number> }>();
+
+// Measured row heights, shared through the cache when the grid has a cacheKey
+const rowHeightsFor = (cacheKey: string | undefined, columns: number) => {
+  if (!cacheKey) return new Map<number, number>();
+  const cached = heightCache.get(cacheKey);
+  if (cached?.columns === columns) return cached.heights;
+  const heights = new Map<number, number>();
+  heightCache.set(cacheKey, { columns, heights });
+  return heights;
+};
+
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  renderSkeleton,
+  empty,
+  loading = false,
+  hasMore = false,
+  onLoadMore,
+  cacheKey,
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() => columnsFor(window.innerWidth));
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+
+  const rowHeights = useMemo(() => rowHeightsFor(cacheKey, columns), [cacheKey, columns]);
+  // For the ResizeObserver, which outlives any one render
+  const heights = useRef(rowHeights);
+  heights.current = rowHeights;
+  const [, setMeasured] = useState(0);
+
+  // Keyboard focus: the card that has it stays rendered even when scrolled away, and arrow
+  // keys move to cards that may not be rendered yet
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const focusedKey = useRef<React.Key | null>(null);
+  const pendingFocus = useRef<number | null>(null);
+
+  // Placeholders fill out the last row and add one more while the next page loads
+  const skeletons = loading ? (items.length === 0 ? columns * 3 : columns * 2 - items.length % columns) : 0;
+  const total = items.length + skeletons;
+  const rowCount = Math.ceil(total / columns);
+
+  const estimate = estimateRowHeight(width || window.innerWidth, columns);
+  const offsets: number[] = [];
+  let height = 0;
+  for (let row = 0; row < rowCount; row++) {
+    offsets.push(height);
+    height += (rowHeights.get(row) ?? estimate) + (row < rowCount - 1 ? GAP : 0);
+  }
+
+  let firstRow = 0;
+  while (firstRow < rowCount - 1 && offsets[firstRow + 1] <= viewport.top - OVERSCAN_PX) firstRow++;
+  let lastRow = firstRow;
+  while (lastRow < rowCount - 1 && offsets[lastRow + 1] < viewport.bottom + OVERSCAN_PX) lastRow++;
+
+  const rows: number[] = [];
+  for (let row = firstRow; row <= lastRow && row < rowCount; row++) rows.push(row);
+  const focusedRow = focusedIndex !== null && focusedIndex < items.length ? Math.floor(focusedIndex / columns) : null;
+  if (focusedRow !== null && !rows.includes(focusedRow)) {
+    // Kept in DOM order, so Tab still moves through the cards as they appear
+    rows.push(focusedRow);
+    rows.sort((a, b) => a - b);
+  }
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const top = -rect.top;
+    const bottom = top + window.innerHeight;
+    setViewport(prev => prev.top === top && prev.bottom === bottom ? prev : { top, bottom });
+    setWidth(container.clientWidth);
+    setColumns(columnsFor(window.innerWidth));
+  }, []);
+
+  useLayoutEffect(() => {
+    updateViewport();
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [updateViewport]);
+
+  const [observer] = useState(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver((entries) => {
+    let changed = false;
+    entries.forEach(entry => {
+      const row = Number((entry.target as HTMLElement).dataset.row);
+      const measured = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight);
+      if (heights.current.get(row) !== measured) {
+        heights.current.set(row, measured);
+        changed = true;
+      }
+    });
+    if (changed) setMeasured(n => n + 1);
+  }));
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  const rowRef = useCallback((el: HTMLDivElement | null) => {
+    if (!el || !observer) return;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+
+  // Ask for the next page when the rendered rows reach the end of what's loaded
+  useEffect(() => {
+    if (hasMore && !loading && onLoadMore && items.length > 0 && lastRow >= rowCount - 1 - LOAD_AHEAD_ROWS) {
+      onLoadMore();
+    }
+  }, [hasMore, loading, onLoadMore, items.length, lastRow, rowCount]);
+
+  const cellAt = (index: number) =>
+    containerRef.current?.querySelector<HTMLElement>(`[data-index="${index}"]`) ?? null;
+
+  // The card's own focus target: the first focusable element in its cell
+  const focusTarget = (cell: HTMLElement | null) =>
+    cell?.querySelector<HTMLElement>('[tabindex], a[href], button:not([disabled])') ?? null;
+
+  useLayoutEffect(() => {
+    // A card asked for by the arrow keys has rendered by now
+    if (pendingFocus.current !== null) {
+      const target = focusTarget(cellAt(pendingFocus.current));
+      if (target) {
+        target.focus();
+        pendingFocus.current = null;
+      }
+      return;
+    }
+    // The focused card went away (e.g. removed from the watchlist): focus moves to the one
+    // that took its place rather than dropping back to the page
+    if (focusedKey.current === null || focusedIndex === null) return;
+    if (items.some(item => getKey(item) === focusedKey.current)) return;
+    focusedKey.current = null;
+    // Unless focus has already moved on by itself
+    if (document.activeElement && document.activeElement !== document.body) return;
+    if (items.length === 0) {
+      setFocusedIndex(null);
+      return;
+    }
+    const replacement = Math.min(focusedIndex, items.length - 1);
+    pendingFocus.current = replacement;
+    setFocusedIndex(replacement);
+  });
+
+  const scrollToIndex = (index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const row = Math.floor(index / columns);
+    const rowTop = container.getBoundingClientRect().top + window.scrollY + offsets[row];
+    const rowBottom = rowTop + (rowHeights.get(row) ?? estimate);
+    if (rowTop < window.scrollY) window.scrollTo(0, rowTop - GAP);
+    else if (rowBottom > window.scrollY + window.innerHeight) window.scrollTo(0, rowBottom - window.innerHeight + GAP);
+  };
+
+  const handleFocus = (e: React.FocusEvent) => {
+    const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-index]');
+    if (!cell) return;
+    const index = Number(cell.dataset.index);
+    if (index >= items.length) return;
+    focusedKey.current = getKey(items[index]);
+    setFocusedIndex(index);
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    // Moving on to something else on the page, not just between cards. Without a related
+    // target the card may simply be going away, which the effect above deals with
+    if (e.relatedTarget && !containerRef.current?.contains(e.relatedTarget as Node)) {
+      focusedKey.current = null;
+      setFocusedIndex(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-index]');
+    // Only from the card itself; its buttons keep their usual keys
+    if (!cell || focusTarget(cell) !== e.target) return;
+    const index = Number(cell.dataset.index);
+    const moves: Record<string, number> = {
+      ArrowRight: 1,
+      ArrowLeft: -1,
+      ArrowDown: columns,
+      ArrowUp: -columns,
+      Home: -index,
+      End: items.length - 1 - index,
+    };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    const target = Math.max(0, Math.min(items.length - 1, index + moves[e.key]));
+    if (target === index) return;
+    scrollToIndex(target);
+    pendingFocus.current = target;
+    setFocusedIndex(target);
+  };
+
+  if (items.length === 0 && !loading) return <>{empty}</>;
+
+  return (
+    <div
+      ref={containerRef}
+      role="list"
+      aria-busy={loading}
+      className="relative"
+      style={{ height }}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+    >
+      {rows.map(row => (
+        <div
+          // A new column count makes new rows, measured afresh
+          key={`${columns}-${row}`}
+          ref={rowRef}
+          data-row={row}
+          className="absolute inset-x-0 grid gap-6"
+          style={{ top: offsets[row], gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {Array.from({ length: columns }, (_, col) => row * columns + col)
+            .filter(index => index < total)
+            .map(index => index < items.length ? (
+              <div key={getKey(items[index])} role="listitem" data-index={index}>
+                {renderItem(items[index], index)}
+              </div>
+            ) : (
+              <div key={`skeleton-${index}`} aria-hidden="true">
+                {renderSkeleton()}
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
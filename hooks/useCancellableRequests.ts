@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+
+// Hands out AbortSignals per named slot. Starting a new request in a slot aborts the
+// one it supersedes, and everything still pending is aborted on unmount.
+export const useCancellableRequests = () => {
+  const controllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach(c => c.abort());
+      active.clear();
+    };
+  }, []);
+
+  const next = useCallback((slot: string): AbortSignal => {
+    controllers.current.get(slot)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(slot, controller);
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback((slot: string) => {
+    controllers.current.get(slot)?.abort();
+    controllers.current.delete(slot);
+  }, []);
+
+  return useMemo(() => ({ next, cancel }), [next, cancel]);
+};
@@ -0,0 +1,43 @@
+import { useEffect, useMemo } from 'react';
+import { isAbortError } from '../services/api';
+import { loadFilms } from '../services/queries';
+import { useStore, selectFilmFacet, FacetField } from '../services/store';
+import { useDebouncedValue } from './useDebouncedValue';
+
+const MAX_SUGGESTIONS = 8;
+// Looked up on the server once typing pauses, and only for queries this long
+const LOOKUP_DELAY_MS = 300;
+const LOOKUP_MIN_LENGTH = 2;
+const LOOKUP_PAGE_SIZE = 20;
+
+// Values starting with the query come before ones that merely contain it; within each,
+// the facet's own order (most common first) is kept
+const rank = (values: string[], query: string, exclude: string[]) => {
+  const q = query.trim().toLowerCase();
+  const taken = new Set(exclude.map(v => v.toLowerCase()));
+  const available = values.filter(v => !taken.has(v.toLowerCase()));
+  if (!q) return available.slice(0, MAX_SUGGESTIONS);
+  const starts = available.filter(v => v.toLowerCase().startsWith(q));
+  const contains = available.filter(v => !v.toLowerCase().startsWith(q) && v.toLowerCase().includes(q));
+  return [...starts, ...contains].slice(0, MAX_SUGGESTIONS);
+};
+
+// Typeahead for a film list field: drawn from every film already in the store, and
+// refined by asking the API for films matching what's typed, whose values then join in
+export const useFacetSuggestions = (token: string | null, field: FacetField, query: string, exclude: string[]) => {
+  const values = useStore(selectFilmFacet(field));
+  const lookup = useDebouncedValue(query.trim(), LOOKUP_DELAY_MS);
+
+  useEffect(() => {
+    if (!token || lookup.length < LOOKUP_MIN_LENGTH) return;
+    const controller = new AbortController();
+    // Results land in the store, and so in `values` above
+    loadFilms(token, 1, LOOKUP_PAGE_SIZE, '-rating', { [field]: lookup }, { signal: controller.signal })
+      .catch(e => { if (!isAbortError(e)) console.error(e); });
+    return () => controller.abort();
+  }, [token, field, lookup]);
+
+  // Callers build `exclude` afresh every render; its contents are what matter
+  const excludeKey = exclude.join('\u0000');
+  return useMemo(() => rank(values, query, excludeKey ? excludeKey.split('\u0000') : []), [values, query, excludeKey]);
+};
@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { api } from '../services/api';
+import { serverFormErrors } from '../utils/validation';
+
+type ResendStatus = 'idle' | 'sending' | 'sent' | 'failed';
+
+// Requests a fresh activation email and tracks how that went for the UI
+export const useResendActivation = () => {
+  const [status, setStatus] = useState<ResendStatus>('idle');
+  const [error, setError] = useState('');
+
+  const resend = useCallback(async (email: string) => {
+    setStatus('sending');
+    setError('');
+    try {
+      await api.resendActivation(email);
+      setStatus('sent');
+    } catch (err) {
+      setStatus('failed');
+      // e.g. "user has already been activated" or "no matching email address found"
+      const server = serverFormErrors(err, ['email'], 'Could not send the activation email.');
+      setError(server.errors.email ? `${server.errors.email}.` : server.apiError);
+    }
+  }, []);
+
+  return { resend, status, error };
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { loadWatchlist } from '../services/queries';
+import { useStore, selectWatchlistStatus, isWatchlistStale } from '../services/store';
+
+// Keeps the shared watchlist in the store loaded: fetched on mount when missing or
+// old, and again whenever a mutation invalidates it.
+export const useWatchlist = (token: string | null) => {
+  const status = useStore(selectWatchlistStatus);
+  const stale = isWatchlistStale(status);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let active = true;
+    loadWatchlist(token)
+      .then(() => { if (active) setError(null); })
+      .catch((e) => {
+        console.error(e);
+        if (active) setError(e);
+      });
+    return () => { active = false; };
+  }, [token, stale]);
+
+  return { loaded: status.loadedAt !== null, error };
+};
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { api, addLog } from '../services/api';
+import { notices } from '../services/notices';
+import { useAuth } from '../App';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { Modal } from '../components/Modal';
+import { validate, serverFormErrors } from '../utils/validation';
+
+type FormState = Record<string, string>;
+
+const Banner: React.FC<{ tone: 'error' | 'success'; children: React.ReactNode }> = ({ tone, children }) => (
+  <div className={`mb-4 p-3 rounded-xl text-sm border ${
+    tone === 'error' ? 'bg-red-900/20 border-red-500/50 text-red-200' : 'bg-green-900/20 border-green-500/50 text-green-200'
+  }`}>
+    {children}
+  </div>
+);
+
+const Section: React.FC<{ title: string; description?: string; danger?: boolean; children: React.ReactNode }> = ({ title, description, danger, children }) => (
+  <section className={`bg-secondary-800/50 rounded-2xl p-6 border ${danger ? 'border-red-900/60' : 'border-secondary-700'}`}>
+    <h2 className={`text-xl font-bold mb-1 ${danger ? 'text-red-400' : 'text-white'}`}>{title}</h2>
+    {description && <p className="text-sm text-gray-400 mb-5">{description}</p>}
+    {children}
+  </section>
+);
+
+const Account: React.FC = () => {
+  const { user, token, updateUser, logout } = useAuth();
+  const navigate = useNavigate();
+
+  // --- Profile ---
+  const [profile, setProfile] = useState<FormState>({ name: user?.name || '', email: user?.email || '' });
+  const [profileErrors, setProfileErrors] = useState<FormState>({});
+  const [profileError, setProfileError] = useState('');
+  const [profileSaved, setProfileSaved] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  // --- Password ---
+  const [passwords, setPasswords] = useState<FormState>({ current_password: '', new_password: '', confirm_password: '' });
+  const [passwordErrors, setPasswordErrors] = useState<FormState>({});
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordSaved, setPasswordSaved] = useState(false);
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  // --- Deletion ---
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+  const [deleting, setDeleting] = useState(false);
+
+  if (!user || !token) return null;
+
+  const memberSince = user.created_at ? new Date(user.created_at).toLocaleDateString() : 'Unknown';
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setProfile(prev => ({ ...prev, [name]: value }));
+    setProfileErrors(prev => ({ ...prev, [name]: '' }));
+  };
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileError('');
+    setProfileSaved('');
+
+    const name = validate(profile.name.trim(), 'NAME');
+    const email = validate(profile.email.trim(), 'EMAIL');
+    setProfileErrors({ name: name.error || '', email: email.error || '' });
+    if (!name.isValid || !email.isValid) return;
+
+    // Only send what changed
+    const updates: { name?: string; email?: string } = {};
+    if (profile.name.trim() !== user.name) updates.name = profile.name.trim();
+    if (profile.email.trim() !== user.email) updates.email = profile.email.trim();
+    if (Object.keys(updates).length === 0) return;
+
+    setSavingProfile(true);
+    try {
+      const updated = await api.updateProfile(token, updates);
+      updateUser(updated);
+      setProfile({ name: updated.name, email: updated.email });
+      setProfileSaved(updates.email && !updated.activated
+        ? `Saved. We sent an activation link to ${updated.email}; your watchlist is locked until you confirm it.`
+        : 'Profile updated.');
+    } catch (err) {
+      const server = serverFormErrors(err, Object.keys(profile), 'Could not update your profile.');
+      setProfileErrors(prev => ({ ...prev, ...server.errors }));
+      setProfileError(server.apiError);
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswords(prev => ({ ...prev, [name]: value }));
+    setPasswordErrors(prev => ({ ...prev, [name]: '' }));
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    setPasswordSaved(false);
+
+    const next = validate(passwords.new_password, 'PASSWORD');
+    const errors = {
+      current_password: passwords.current_password ? '' : 'Current password is required.',
+      new_password: next.error || '',
+      confirm_password: passwords.confirm_password === passwords.new_password ? '' : 'Passwords do not match.',
+    };
+    setPasswordErrors(errors);
+    if (Object.values(errors).some(Boolean)) return;
+
+    setSavingPassword(true);
+    try {
+      await api.changePassword(token, passwords.current_password, passwords.new_password);
+      setPasswords({ current_password: '', new_password: '', confirm_password: '' });
+      setPasswordSaved(true);
+    } catch (err) {
+      const server = serverFormErrors(err, Object.keys(passwords), 'Could not change your password.');
+      setPasswordErrors(prev => ({ ...prev, ...server.errors }));
+      setPasswordError(server.apiError);
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const closeDeleteModal = () => {
+    setIsDeleteOpen(false);
+    setDeleteConfirmation('');
+    setDeleteError('');
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setDeleteError('');
+    try {
+      await api.deleteAccount(token);
+      addLog('INFO', `Deleted account ${user.email}`);
+      logout();
+      notices.push('info', 'Your account was deleted.');
+      navigate('/register');
+    } catch (err) {
+      setDeleteError(serverFormErrors(err, [], 'Could not delete your account.').apiError);
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-white tracking-tight">Account</h1>
+        <p className="text-gray-400 mt-1">Manage your profile, password and account.</p>
+      </div>
+
+      <Section title="Profile">
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 text-sm">
+          <div>
+            <dt className="text-gray-500">Member since</dt>
+            <dd className="text-white">{memberSince}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Status</dt>
+            <dd className={user.activated ? 'text-green-400' : 'text-amber-400'}>
+              {user.activated ? 'Activated' : 'Awaiting activation'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">User ID</dt>
+            <dd className="text-white">{user.id}</dd>
+          </div>
+        </dl>
+
+        {profileError && <Banner tone="error">{profileError}</Banner>}
+        {profileSaved && <Banner tone="success">{profileSaved}</Banner>}
+
+        <form onSubmit={handleProfileSubmit} className="space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              label="Full Name"
+              name="name"
+              value={profile.name}
+              onChange={handleProfileChange}
+              error={profileErrors.name}
+              touched={!!profileErrors.name}
+            />
+            <Input
+              label="Email Address"
+              name="email"
+              type="email"
+              value={profile.email}
+              onChange={handleProfileChange}
+              error={profileErrors.email}
+              touched={!!profileErrors.email}
+            />
+          </div>
+          <p className="text-xs text-gray-500 px-1">Changing your email means confirming the new address before you can use your watchlist again.</p>
+          <div className="flex justify-end pt-2">
+            <Button type="submit" isLoading={savingProfile}>Save Profile</Button>
+          </div>
+        </form>
+      </Section>
+
+      <Section title="Change Password">
+        {passwordError && <Banner tone="error">{passwordError}</Banner>}
+        {passwordSaved && <Banner tone="success">Password changed.</Banner>}
+
+        <form onSubmit={handlePasswordSubmit} className="space-y-2">
+          <Input
+            label="Current Password"
+            name="current_password"
+            type="password"
+            autoComplete="current-password"
+            value={passwords.current_password}
+            onChange={handlePasswordChange}
+            error={passwordErrors.current_password}
+            touched={!!passwordErrors.current_password}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              label="New Password"
+              name="new_password"
+              type="password"
+              autoComplete="new-password"
+              value={passwords.new_password}
+              onChange={handlePasswordChange}
+              error={passwordErrors.new_password}
+              touched={!!passwordErrors.new_password}
+            />
+            <Input
+              label="Confirm New Password"
+              name="confirm_password"
+              type="password"
+              autoComplete="new-password"
+              value={passwords.confirm_password}
+              onChange={handlePasswordChange}
+              error={passwordErrors.confirm_password}
+              touched={!!passwordErrors.confirm_password}
+            />
+          </div>
+          <div className="text-xs text-gray-500 px-1">
+            Must contain 8+ chars, uppercase, lowercase, number & special char.
+          </div>
+          <div className="flex justify-end pt-2">
+            <Button type="submit" isLoading={savingPassword}>Change Password</Button>
+          </div>
+        </form>
+      </Section>
+
+      <Section
+        title="Danger Zone"
+        description="Deleting your account removes your profile and watchlist for good. This cannot be undone."
+        danger
+      >
+        <Button variant="danger" onClick={() => setIsDeleteOpen(true)}>Delete Account</Button>
+      </Section>
+
+      <Modal isOpen={isDeleteOpen} onClose={closeDeleteModal} title="Delete Account">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            This permanently deletes <span className="text-white font-medium">{user.email}</span> and everything on your watchlist.
+            Type your email address to confirm.
+          </p>
+          {deleteError && <Banner tone="error">{deleteError}</Banner>}
+          <Input
+            label="Email Address"
+            name="confirm_email"
+            type="email"
+            value={deleteConfirmation}
+            onChange={(e) => setDeleteConfirmation(e.target.value)}
+          />
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="ghost" onClick={closeDeleteModal}>Cancel</Button>
+            <Button
+              variant="danger"
+              onClick={handleDelete}
+              isLoading={deleting}
+              disabled={deleteConfirmation.trim() !== user.email}
+            >
+              Delete Forever
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default Account;
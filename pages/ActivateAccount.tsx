@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { api } from '../services/api';
+import { ValidationError } from '../services/errors';
+import { useAuth } from '../App';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { validate, serverFormErrors } from '../utils/validation';
+import { useResendActivation } from '../hooks/useResendActivation';
+
+type ActivationStatus = 'idle' | 'activating' | 'activated' | 'failed';
+
+const ActivateAccount: React.FC = () => {
+  // Emailed links look like #/activate?token=...; without one the user types the token in
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token') || '';
+  const { user, isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  const [token, setToken] = useState(linkToken);
+  const [tokenError, setTokenError] = useState('');
+  const [status, setStatus] = useState<ActivationStatus>(linkToken ? 'activating' : 'idle');
+  const [apiError, setApiError] = useState('');
+
+  const [email, setEmail] = useState(user?.email || '');
+  const [emailError, setEmailError] = useState('');
+  const { resend, status: resendStatus, error: resendError } = useResendActivation();
+
+  const activate = async (value: string) => {
+    setStatus('activating');
+    setApiError('');
+    try {
+      await api.activate(value);
+      setStatus('activated');
+    } catch (err) {
+      setStatus('failed');
+      if (err instanceof ValidationError && err.fields.token) {
+        setApiError('This activation link is invalid or has expired. Request a new one below.');
+      } else {
+        setApiError(serverFormErrors(err, [], 'Activation failed. Please try again.').apiError);
+      }
+    }
+  };
+
+  // Tokens are single use, so a link's token is only ever sent once (StrictMode runs effects twice)
+  const attempted = useRef<string | null>(null);
+  useEffect(() => {
+    if (!linkToken || attempted.current === linkToken) return;
+    attempted.current = linkToken;
+    activate(linkToken);
+  }, [linkToken]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) {
+      setTokenError('Activation token is required.');
+      return;
+    }
+    setTokenError('');
+    activate(token.trim());
+  };
+
+  const handleResend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { isValid, error } = validate(email, 'EMAIL');
+    setEmailError(error || '');
+    if (isValid) resend(email);
+  };
+
+  const alreadyActive = status === 'idle' && user?.activated;
+
+  return (
+    <div className="max-w-md mx-auto mt-20 px-4">
+      <div className="text-center mb-8">
+        <div className="w-16 h-16 bg-gradient-to-tr from-primary-600 to-primary-400 rounded-2xl flex items-center justify-center text-white font-bold text-3xl mx-auto mb-4 shadow-lg shadow-primary-900/50">C</div>
+        <h2 className="text-3xl font-bold text-white mb-2 tracking-tight">Activate Account</h2>
+        <p className="text-gray-400">Confirm your email address to unlock your watchlist.</p>
+      </div>
+
+      <div className="bg-secondary-800/50 backdrop-blur-xl rounded-2xl p-8 border border-secondary-700 shadow-2xl relative overflow-hidden">
+        {/* Decorative background element */}
+        <div className="absolute top-0 right-0 -mt-10 -mr-10 w-32 h-32 bg-primary-500/10 rounded-full blur-3xl pointer-events-none"></div>
+
+        {apiError && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/50 text-red-200 rounded-xl text-sm flex items-start gap-3">
+            <span className="text-xl">⚠️</span>
+            <p className="pt-0.5">{apiError}</p>
+          </div>
+        )}
+
+        {status === 'activating' && (
+          <p className="text-center text-gray-400 py-6 animate-pulse">Activating your account...</p>
+        )}
+
+        {(status === 'activated' || alreadyActive) && (
+          <div className="space-y-6 text-center">
+            <p className="text-gray-300">
+              {status === 'activated' ? 'Your account is activated.' : 'Your account is already active.'}
+            </p>
+            {isAuthenticated ? (
+              <Button className="w-full" onClick={() => navigate('/')}>Go to Dashboard</Button>
+            ) : (
+              <Button className="w-full" onClick={() => navigate('/login')}>Sign In</Button>
+            )}
+          </div>
+        )}
+
+        {(status === 'idle' || status === 'failed') && !alreadyActive && (
+          <div className="space-y-8">
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <Input
+                label="Activation Token"
+                name="token"
+                type="text"
+                placeholder="From your activation email"
+                autoComplete="one-time-code"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                error={tokenError}
+                touched={!!tokenError}
+              />
+              <div className="pt-2">
+                <Button type="submit" className="w-full">Activate</Button>
+              </div>
+            </form>
+
+            <form onSubmit={handleResend} className="space-y-2 pt-6 border-t border-secondary-700">
+              <p className="text-sm text-gray-400 pb-2">Didn't get the email, or the link expired? We'll send a new one.</p>
+              <Input
+                label="Email Address"
+                name="email"
+                type="email"
+                placeholder="john@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                error={emailError}
+                touched={!!emailError}
+              />
+              {resendStatus === 'sent' && <p className="text-sm text-green-400 px-1">A new activation email is on its way.</p>}
+              {resendStatus === 'failed' && <p className="text-sm text-red-400 px-1">{resendError}</p>}
+              <div className="pt-2">
+                <Button type="submit" variant="secondary" className="w-full" isLoading={resendStatus === 'sending'}>
+                  Resend Activation Email
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {!isAuthenticated && (
+          <div className="mt-8 pt-6 border-t border-secondary-700 text-center text-sm text-gray-400">
+            Already activated?{' '}
+            <Link to="/login" className="text-primary-400 hover:text-primary-300 font-medium hover:underline underline-offset-4">
+              Sign In
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivateAccount;
@@ -1,178 +1,348 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { api, FilmFilters, addLog } from '../services/api';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { api, addLog, isAbortError } from '../services/api';
 import { useAuth } from '../App';
-import { Film, WatchlistEntry, SortOption } from '../types';
-import { FilmCard } from '../components/FilmCard';
+import { Film } from '../types';
+import { FilmCard, FilmCardSkeleton } from '../components/FilmCard';
 import { Button } from '../components/Button';
 import { Modal } from '../components/Modal';
 import { GraphView } from '../components/GraphView';
+import { VirtualGrid } from '../components/VirtualGrid';
 import { Input } from '../components/Input';
+import { FacetInput } from '../components/FacetInput';
+import { RangeInput } from '../components/RangeInput';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { hasMorePages } from '../services/pagination';
+import { loadFilms, loadWatchlist } from '../services/queries';
+import { useStore, selectWatchlistEntries, selectWatchlistByFilm, selectFilmCertificates } from '../services/store';
+import { watchlistMutations } from '../services/watchlistMutations';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { dashboardSnapshots } from '../services/dashboardSnapshots';
+import {
+  DashboardFilters, DashboardParams, DEFAULT_PARAMS, EMPTY_FILTERS, LIST_FILTERS, ListFilter, TABS, Tab,
+  hasFilters, joinFilterValues, normalizeFilters, parseDashboardParams, splitFilterValues, toFilmFilters, toSearchParams,
+} from '../utils/dashboardParams';
 
-type Tab = 'discover' | 'watchlist' | 'recommendations';
-type ViewMode = 'grid' | 'graph';
+// Filters apply by themselves once typing pauses this long
+const LIVE_SEARCH_DELAY_MS = 400;
+
+const NO_PENDING_TEXT: Record<ListFilter, string> = { genres: '', actors: '', directors: '' };
+
+// Offered even before any film carrying them has loaded
+const COMMON_CERTIFICATES = ['G', 'PG', 'PG-13', 'R', 'NC-17'];
 
 const Dashboard: React.FC = () => {
-  const { token, logout } = useAuth();
-  const [activeTab, setActiveTab] = useState<Tab>('discover');
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const { token, user } = useAuth();
+  const location = useLocation();
+  // Unactivated accounts can browse films but the watchlist (and recommendations built on it) stay locked
+  const activated = !!user?.activated;
+  const tabs: Tab[] = activated ? TABS : ['discover'];
+  const requests = useCancellableRequests();
+
+  // Tab, view, sort, applied filters and page count live in the URL, so the view can be
+  // shared and back/forward steps through it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = parseDashboardParams(searchParams, tabs);
+  const { tab: activeTab, view: viewMode, sort } = params;
+  const appliedFilters = params.filters;
+  const filtersKey = JSON.stringify(appliedFilters);
+  const viewKey = [activeTab, viewMode, sort, filtersKey].join('|');
+
+  // Coming back to this history entry (e.g. from a film's page) picks up where we left off
+  const [snapshot] = useState(() => dashboardSnapshots.get(location.key));
+  // The view whose results are on screen: the snapshot's, then whatever was last fetched
+  const loadedView = useRef(snapshot ? viewKey : null);
   
   // Data State
-  const [films, setFilms] = useState<Film[]>([]);
-  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([]);
-  const [recommendations, setRecommendations] = useState<Film[]>([]);
+  const [films, setFilms] = useState<Film[]>(snapshot?.films ?? []);
+  const [recommendations, setRecommendations] = useState<Film[]>(snapshot?.recommendations ?? []);
   const [loading, setLoading] = useState(false);
   
-  // Filters/Pagination State
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [sort, setSort] = useState<string>(SortOption.RatingDesc);
+  // Pagination State
+  const [loadedPages, setLoadedPages] = useState(snapshot?.loadedPages ?? 0);
+  const [hasMore, setHasMore] = useState(snapshot?.hasMore ?? true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // The last page came back short with more to come (see loadFilms' range scan)
+  const [scanPaused, setScanPaused] = useState(false);
   
-  // Advanced Search State
-  const [showFilters, setShowFilters] = useState(false);
-  const [searchFilters, setSearchFilters] = useState<FilmFilters>({
-    title: '',
-    genres: '',
-    actors: '',
-    directors: ''
+  // Advanced Search State: what's typed, applied (and put in the URL) as typing pauses.
+  // Genres, actors and directors are chips plus whatever is typed after them.
+  const [showFilters, setShowFilters] = useState(() => hasFilters(appliedFilters));
+  const [searchFilters, setSearchFilters] = useState<DashboardFilters>(appliedFilters);
+  const [pendingText, setPendingText] = useState(NO_PENDING_TEXT);
+  const liveFilters = normalizeFilters({
+    ...searchFilters,
+    ...Object.fromEntries(LIST_FILTERS.map(field => [
+      field,
+      joinFilterValues([...splitFilterValues(searchFilters[field]), pendingText[field]]),
+    ])),
   });
+  const liveKey = JSON.stringify(liveFilters);
+  const debouncedLiveKey = useDebouncedValue(liveKey, LIVE_SEARCH_DELAY_MS);
+  // The filters this page last put in the URL itself, as opposed to back/forward or Clear
+  const ownFilters = useRef<string | null>(null);
 
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedFilmId, setSelectedFilmId] = useState<number | null>(null);
+  const [selectedFilm, setSelectedFilm] = useState<Film | null>(null);
   const [priority, setPriority] = useState(5);
   const [notes, setNotes] = useState('');
 
-  // --- Data Fetching ---
+  // Shared watchlist: kept loaded (and revalidated after mutations) by the store,
+  // with changes that are still being saved already applied
+  const { loaded: watchlistLoaded } = useWatchlist(activated ? token : null);
+  const watchlist = useStore(selectWatchlistEntries(false));
+  const watchlistByFilm = useStore(selectWatchlistByFilm);
+  const syncByFilm = useStore(s => s.watchlistSync);
+  const seenCertificates = useStore(selectFilmCertificates);
+  const certificates = [...COMMON_CERTIFICATES, ...seenCertificates.filter(c => !COMMON_CERTIFICATES.includes(c))];
+  const entryForFilm = (filmId: number) => watchlistByFilm[filmId];
 
-  const fetchWatchlist = useCallback(async () => {
-    if (!token) return;
-    try {
-      // Fetch a larger initial batch to ensure "In Watchlist" checks are accurate for most recent items
-      const res = await api.getWatchlist(token, false, 1, 100);
-      setWatchlist(res.watchlist);
-    } catch (e) {
-      console.error(e);
-    }
-  }, [token]);
+  // --- Data Fetching ---
 
+  // A reset loads as many pages as the URL asks for (a shared or reloaded link keeps its
+  // depth); otherwise the next page is appended and the URL's page count follows along
   const fetchFilms = useCallback(async (reset = false) => {
     if (!token) return;
+    // A new search or page supersedes whatever films request is still running
+    const signal = requests.next('films');
     setLoading(true);
+    setLoadFailed(false);
+    setScanPaused(false);
     try {
-      const p = reset ? 1 : page;
+      const first = reset ? 1 : loadedPages + 1;
+      const last = reset ? params.page : first;
       // Limit graph view items for performance
       const size = viewMode === 'graph' ? 50 : 20; 
-      
-      // Clean filters (trim whitespace)
-      const cleanedFilters: FilmFilters = {
-        title: searchFilters.title.trim(),
-        genres: searchFilters.genres.trim(),
-        actors: searchFilters.actors.trim(),
-        directors: searchFilters.directors.trim(),
-      };
 
-      const res = await api.getFilms(token, p, size, sort, cleanedFilters);
-      
-      setFilms(prev => reset ? res.films : [...prev, ...res.films]);
-      setHasMore(res.films.length === size); 
-      setPage(p + 1);
+      for (let p = first; p <= last; p++) {
+        // Cached pages render immediately; the revalidated copy replaces them in place
+        const res = await loadFilms(token, p, size, sort, toFilmFilters(appliedFilters), {
+          signal,
+          onData: (data) => {
+            if (signal.aborted) return;
+            const ids = new Set(data.films.map(f => f.id));
+            setFilms(prev => p === 1 ? data.films : [...prev.filter(f => !ids.has(f.id)), ...data.films]);
+            setHasMore(hasMorePages(data.metadata));
+          },
+        });
+        if (signal.aborted) return;
+        setHasMore(hasMorePages(res.metadata));
+        // Not loaded yet: the next load asks for this page again and carries on
+        if (res.films.length < size && hasMorePages(res.metadata)) {
+          setLoadedPages(p - 1);
+          setScanPaused(true);
+          return;
+        }
+        setLoadedPages(p);
+        if (!hasMorePages(res.metadata)) break;
+      }
+
+      // Deeper results aren't a new view, so they don't get their own history entry
+      if (!reset) {
+        setSearchParams(prev => toSearchParams({ ...parseDashboardParams(prev), page: first }), { replace: true });
+      }
     } catch (e) {
+      if (isAbortError(e)) return;
+      // Auth failures are handled centrally by the API client's session handling
       console.error(e);
-      if (e instanceof Error && e.message.includes('401')) logout();
+      setLoadFailed(true);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
-  }, [token, page, sort, searchFilters, viewMode, logout]);
+  }, [token, loadedPages, params.page, sort, appliedFilters, viewMode, requests, setSearchParams]);
+
+  // Next page for the grid's infinite scroll
+  const loadMore = useCallback(() => fetchFilms(false), [fetchFilms]);
 
   const fetchRecommendations = useCallback(async () => {
     if (!token) return;
+    const signal = requests.next('recommendations');
     setLoading(true);
     try {
-      const res = await api.getRecommendations(token);
+      const res = await api.getRecommendations(token, { signal });
       setRecommendations(res.recommendations);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
-  }, [token]);
+  }, [token, requests]);
 
-  // Initial Load
-  useEffect(() => {
-    fetchWatchlist();
-  }, [fetchWatchlist]);
+  // Read by the effect below when it runs, rather than re-running it whenever they change
+  const fetching = useRef({ token, fetchFilms, fetchRecommendations, loadedPages });
+  fetching.current = { token, fetchFilms, fetchRecommendations, loadedPages };
 
-  // Tab Effects
+  // Tab Effects: run when the URL's view or page count changes, whether from the controls,
+  // back/forward or a pasted link
   useEffect(() => {
-    setPage(1);
+    const { token, fetchFilms, fetchRecommendations, loadedPages } = fetching.current;
+    if (loadedView.current === viewKey) {
+      // The same view at another depth (back/forward across infinite scroll) reloads to
+      // match; a page count written by our own load-more is already on screen
+      if (activeTab === 'discover' && params.page !== loadedPages) fetchFilms(true);
+      return;
+    }
+    loadedView.current = viewKey;
+    // Results for a tab we just left would only overwrite state nobody is looking at
+    if (activeTab !== 'discover') requests.cancel('films');
+    if (activeTab !== 'recommendations') requests.cancel('recommendations');
+    // A cancelled request never clears its own spinner (or the grid's skeletons)
+    setLoading(false);
     if (activeTab === 'discover') fetchFilms(true);
-    if (activeTab === 'watchlist') fetchWatchlist();
+    if (activeTab === 'watchlist' && token) loadWatchlist(token).catch(console.error);
     if (activeTab === 'recommendations') fetchRecommendations();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab, sort, viewMode]); 
+  }, [activeTab, viewKey, params.page, requests]);
+
+  // --- Snapshot ---
+
+  // Before the first paint, so the restored list never flashes at the top
+  useLayoutEffect(() => {
+    if (snapshot) window.scrollTo(0, snapshot.scrollY);
+  }, [snapshot]);
+
+  // Kept current for the unmount below, which only sees the first render's values
+  const latest = useRef({ key: location.key, loading, films, recommendations, loadedPages, hasMore, scrollY: 0 });
+  latest.current = { ...latest.current, key: location.key, loading, films, recommendations, loadedPages, hasMore };
+
+  useEffect(() => {
+    // Tracked as it happens: by unmount the next page may already have changed the scroll position
+    const onScroll = () => { latest.current.scrollY = window.scrollY; };
+    onScroll();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      // Half-loaded results would come back without anything to finish loading them
+      const { key, loading: unfinished, ...state } = latest.current;
+      if (!unfinished) dashboardSnapshots.save(key, state);
+    };
+  }, []);
+
+  // The form follows the URL when it changes underneath it (back/forward, a pasted link),
+  // but not after its own live search, which would undo anything typed since
+  useEffect(() => {
+    if (filtersKey === ownFilters.current) return;
+    setSearchFilters(JSON.parse(filtersKey));
+    setPendingText(NO_PENDING_TEXT);
+  }, [filtersKey]);
 
   // --- Handlers ---
 
+  // Every change of view is a history entry, starting again from the first page
+  const updateParams = (changes: Partial<DashboardParams>) => {
+    setSearchParams(toSearchParams({ ...params, page: 1, ...changes }));
+  };
+
+  // Filters only mean something on Discover, so applying them goes there. While typing,
+  // the first change gets a history entry and the ones after it replace it, so Back
+  // leaves the search rather than stepping through it keystroke by keystroke.
+  const applyFilters = (filters: DashboardFilters, live: boolean) => {
+    const next = toSearchParams({ ...params, tab: 'discover', filters, page: 1 });
+    if (next.toString() === searchParams.toString()) {
+        // Nothing changed, so the URL (and the effect) stays put; search again anyway
+        if (!live) fetchFilms(true);
+        return;
+    }
+    ownFilters.current = JSON.stringify(normalizeFilters(filters));
+    const typing = !!(location.state as { liveSearch?: boolean } | null)?.liveSearch;
+    setSearchParams(next, { replace: live && typing, state: live ? { liveSearch: true } : null });
+  };
+
+  // Live search. Only a pause in typing applies; the URL's filters changing underneath
+  // (back/forward) is read from the ref, or it would put the typed ones straight back
+  const liveSearch = useRef({ applyFilters, filtersKey });
+  liveSearch.current = { applyFilters, filtersKey };
+
+  useEffect(() => {
+    const { applyFilters, filtersKey } = liveSearch.current;
+    if (debouncedLiveKey !== filtersKey) applyFilters(JSON.parse(debouncedLiveKey), true);
+  }, [debouncedLiveKey]);
+
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (activeTab !== 'discover') {
-        setActiveTab('discover');
-        // Effect will trigger fetch due to tab change
-    } else {
-        fetchFilms(true);
-    }
+    // Whatever is typed in the chip fields becomes chips
+    setSearchFilters(liveFilters);
+    setPendingText(NO_PENDING_TEXT);
+    applyFilters(liveFilters, false);
   };
 
   const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchFilters(prev => ({ ...prev, [e.target.name]: e.target.value }));
   };
 
+  const setFilterValues = (field: ListFilter, values: string[]) => {
+    setSearchFilters(prev => ({ ...prev, [field]: joinFilterValues(values) }));
+  };
+
+  const setFilterText = (field: ListFilter, text: string) => {
+    setPendingText(prev => ({ ...prev, [field]: text }));
+  };
+
+  const toggleCertificate = (certificate: string) => {
+    setSearchFilters(prev => {
+      const selected = splitFilterValues(prev.certificates);
+      return {
+        ...prev,
+        certificates: joinFilterValues(selected.includes(certificate)
+          ? selected.filter(c => c !== certificate)
+          : [...selected, certificate]),
+      };
+    });
+  };
+
   const openAddModal = (filmId: number) => {
-    setSelectedFilmId(filmId);
+    setSelectedFilm([...films, ...recommendations].find(f => f.id === filmId) ?? null);
     setPriority(5);
     setNotes('');
     setIsModalOpen(true);
   };
 
+  // Both show up right away; offline they wait in the sync queue, and a rejected
+  // save is rolled back with a notice
   const handleAddToWatchlist = async () => {
-    if (!token || !selectedFilmId) return;
-    try {
-      await api.addToWatchlist(token, selectedFilmId, priority, notes);
-      setIsModalOpen(false);
-      fetchWatchlist(); // Refresh watchlist to update UI
-      addLog('INFO', 'Added film to watchlist');
-    } catch (e: any) {
-      addLog('ERR', 'Failed to add', e.message);
-      alert("Failed to add to watchlist");
-    }
+    if (!token || !selectedFilm) return;
+    setIsModalOpen(false);
+    const outcome = await watchlistMutations.add(selectedFilm, priority, notes);
+    if (outcome === 'saved') addLog('INFO', 'Added film to watchlist');
+    if (outcome === 'queued') addLog('INFO', 'Queued watchlist add until the network is back');
   };
 
-  const handleRemoveFromWatchlist = async (entryId: number) => {
+  const handleRemoveFromWatchlist = async (filmId: number) => {
     if (!token) return;
     
     // Removed blocking confirm for debugging
     // if (!window.confirm("Remove from watchlist?")) return;
     
-    addLog('INFO', `Attempting to remove watchlist entry: ${entryId}`);
-    try {
-      await api.removeFromWatchlist(token, entryId);
-      setWatchlist(prev => prev.filter(item => item.id !== entryId));
-      addLog('INFO', `Successfully removed entry ${entryId} from local state`);
-    } catch (e: any) {
-      console.error(e);
-      addLog('ERR', 'Failed to remove', e.message);
-      alert(`Failed to remove: ${e.message}`);
-    }
+    addLog('INFO', `Attempting to remove film ${filmId} from the watchlist`);
+    const outcome = await watchlistMutations.remove(filmId);
+    if (outcome === 'saved') addLog('INFO', `Successfully removed film ${filmId} from the watchlist`);
+    if (outcome === 'queued') addLog('INFO', `Queued removal of film ${filmId} until the network is back`);
   };
 
   // --- Render Helpers ---
 
-  const renderContent = () => {
-    if (loading && films.length === 0 && watchlist.length === 0 && recommendations.length === 0) {
-      return <div className="text-center py-20 text-gray-500">Loading your cinema universe...</div>;
-    }
+  const renderFilmCard = (film: Film) => {
+    const inWatchlist = entryForFilm(film.id);
+    return (
+      <FilmCard 
+        film={film} 
+        watchlistEntry={inWatchlist}
+        syncState={syncByFilm[film.id]}
+        onAddToWatchlist={activated && !inWatchlist ? openAddModal : undefined}
+        onRemoveFromWatchlist={() => handleRemoveFromWatchlist(film.id)}
+      />
+    );
+  };
 
+  const renderSkeleton = () => <FilmCardSkeleton />;
+
+  const renderContent = () => {
     if (activeTab === 'discover' && viewMode === 'graph') {
+        if (loading && films.length === 0) {
+            return <div className="text-center py-20 text-gray-500">Loading your cinema universe...</div>;
+        }
         return (
             <div className="animate-in fade-in zoom-in duration-300">
                  <GraphView films={films} />
@@ -186,31 +356,29 @@ const Dashboard: React.FC = () => {
     if (activeTab === 'discover') {
       return (
         <>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {films.length > 0 ? (
-                films.map(film => {
-                const inWatchlist = watchlist.find(w => w.film_id === film.id); 
-                return (
-                    <FilmCard 
-                    key={film.id} 
-                    film={film} 
-                    watchlistEntry={inWatchlist}
-                    onAddToWatchlist={!inWatchlist ? openAddModal : undefined}
-                    onRemoveFromWatchlist={handleRemoveFromWatchlist}
-                    />
-                );
-                })
+          <VirtualGrid
+            cacheKey="discover"
+            items={films}
+            getKey={film => film.id}
+            renderItem={renderFilmCard}
+            renderSkeleton={renderSkeleton}
+            loading={loading}
+            // After a failed page it waits for Try Again instead of retrying on every scroll
+            hasMore={hasMore && !loadFailed}
+            onLoadMore={loadMore}
+            empty={scanPaused && !loadFailed ? (
+              <div className="text-center py-10 text-gray-500">
+                <p className="mb-3">No matches yet in the films searched so far.</p>
+                <Button onClick={loadMore} variant="secondary">Keep Searching</Button>
+              </div>
             ) : (
-                <div className="col-span-full text-center py-10 text-gray-500">
-                    No films found matching your criteria.
-                </div>
+              <div className="text-center py-10 text-gray-500">No films found matching your criteria.</div>
             )}
-          </div>
-          {hasMore && films.length > 0 && (
+          />
+          {loadFailed && films.length > 0 && (
             <div className="mt-8 text-center">
-              <Button onClick={() => fetchFilms(false)} variant="secondary" isLoading={loading}>
-                Load More Films
-              </Button>
+              <p className="text-sm text-gray-500 mb-2">Couldn't load more films.</p>
+              <Button onClick={loadMore} variant="secondary">Try Again</Button>
             </div>
           )}
         </>
@@ -218,40 +386,37 @@ const Dashboard: React.FC = () => {
     }
 
     if (activeTab === 'watchlist') {
-      if (watchlist.length === 0) return <div className="text-center py-20 text-gray-500">Your watchlist is empty. Go discover some movies!</div>;
-      
       return (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {watchlist.map(entry => (
+        <VirtualGrid
+          cacheKey="watchlist"
+          items={watchlist}
+          getKey={entry => entry.film_id}
+          renderItem={entry => (
             <FilmCard 
-              key={entry.id} 
               film={entry.film}
               watchlistEntry={entry}
-              onRemoveFromWatchlist={handleRemoveFromWatchlist}
+              syncState={syncByFilm[entry.film_id]}
+              onRemoveFromWatchlist={() => handleRemoveFromWatchlist(entry.film_id)}
             />
-          ))}
-        </div>
+          )}
+          renderSkeleton={renderSkeleton}
+          loading={!watchlistLoaded}
+          empty={<div className="text-center py-20 text-gray-500">Your watchlist is empty. Go discover some movies!</div>}
+        />
       );
     }
 
     if (activeTab === 'recommendations') {
-       if (recommendations.length === 0) return <div className="text-center py-20 text-gray-500">Rate some movies in your watchlist to get intelligent recommendations!</div>;
-
-       return (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {recommendations.map(film => {
-             const inWatchlist = watchlist.find(w => w.film_id === film.id); 
-             return (
-                <FilmCard 
-                key={film.id} 
-                film={film} 
-                watchlistEntry={inWatchlist}
-                onAddToWatchlist={!inWatchlist ? openAddModal : undefined}
-                onRemoveFromWatchlist={handleRemoveFromWatchlist}
-                />
-            );
-          })}
-        </div>
+      return (
+        <VirtualGrid
+          cacheKey="recommendations"
+          items={recommendations}
+          getKey={film => film.id}
+          renderItem={renderFilmCard}
+          renderSkeleton={renderSkeleton}
+          loading={loading}
+          empty={<div className="text-center py-20 text-gray-500">Rate some movies in your watchlist to get intelligent recommendations!</div>}
+        />
       );
     }
   };
@@ -264,10 +429,10 @@ const Dashboard: React.FC = () => {
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
             {/* Tabs */}
             <div className="flex space-x-1 bg-secondary-800 p-1 rounded-lg border border-secondary-700 w-fit">
-            {(['discover', 'watchlist', 'recommendations'] as Tab[]).map((tab) => (
+            {tabs.map((tab) => (
                 <button
                 key={tab}
-                onClick={() => setActiveTab(tab)}
+                onClick={() => updateParams({ tab })}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
                     activeTab === tab 
                     ? 'bg-primary-600 text-white shadow' 
@@ -283,8 +448,8 @@ const Dashboard: React.FC = () => {
                  {/* View Toggle */}
                  {activeTab === 'discover' && (
                     <div className="flex space-x-1 bg-secondary-800 p-1 rounded-lg border border-secondary-700">
-                        <button onClick={() => setViewMode('grid')} className={`px-3 py-1.5 rounded text-xs font-medium ${viewMode === 'grid' ? 'bg-secondary-600 text-white' : 'text-gray-400'}`}>Grid</button>
-                        <button onClick={() => setViewMode('graph')} className={`px-3 py-1.5 rounded text-xs font-medium ${viewMode === 'graph' ? 'bg-secondary-600 text-white' : 'text-gray-400'}`}>Graph</button>
+                        <button onClick={() => updateParams({ view: 'grid' })} className={`px-3 py-1.5 rounded text-xs font-medium ${viewMode === 'grid' ? 'bg-secondary-600 text-white' : 'text-gray-400'}`}>Grid</button>
+                        <button onClick={() => updateParams({ view: 'graph' })} className={`px-3 py-1.5 rounded text-xs font-medium ${viewMode === 'graph' ? 'bg-secondary-600 text-white' : 'text-gray-400'}`}>Graph</button>
                     </div>
                  )}
 
@@ -311,32 +476,41 @@ const Dashboard: React.FC = () => {
                             value={searchFilters.title}
                             onChange={handleFilterChange}
                         />
-                        <Input 
+                        <FacetInput
                             label="Genres"
-                            name="genres"
+                            field="genres"
+                            token={token}
                             placeholder="e.g. Action"
-                            value={searchFilters.genres}
-                            onChange={handleFilterChange}
+                            values={splitFilterValues(searchFilters.genres)}
+                            onChange={(values) => setFilterValues('genres', values)}
+                            text={pendingText.genres}
+                            onTextChange={(text) => setFilterText('genres', text)}
                         />
-                         <Input 
-                            label="Actor"
-                            name="actors"
+                        <FacetInput
+                            label="Actors"
+                            field="actors"
+                            token={token}
                             placeholder="e.g. DiCaprio"
-                            value={searchFilters.actors}
-                            onChange={handleFilterChange}
+                            values={splitFilterValues(searchFilters.actors)}
+                            onChange={(values) => setFilterValues('actors', values)}
+                            text={pendingText.actors}
+                            onTextChange={(text) => setFilterText('actors', text)}
                         />
-                        <Input 
-                            label="Director"
-                            name="directors"
+                        <FacetInput
+                            label="Directors"
+                            field="directors"
+                            token={token}
                             placeholder="e.g. Nolan"
-                            value={searchFilters.directors}
-                            onChange={handleFilterChange}
+                            values={splitFilterValues(searchFilters.directors)}
+                            onChange={(values) => setFilterValues('directors', values)}
+                            text={pendingText.directors}
+                            onTextChange={(text) => setFilterText('directors', text)}
                         />
                         <div className="w-full">
                             <label className="block text-sm font-medium text-gray-300 mb-1.5 ml-1">Sort By</label>
                             <select 
                                 value={sort}
-                                onChange={(e) => setSort(e.target.value)}
+                                onChange={(e) => updateParams({ sort: e.target.value })}
                                 className="w-full bg-secondary-900 border border-secondary-600 rounded-lg px-4 py-2.5 text-white outline-none focus:border-primary-500"
                             >
                                 <option value="-rating">Rating (High to Low)</option>
@@ -350,11 +524,66 @@ const Dashboard: React.FC = () => {
                             </select>
                         </div>
                     </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                        <RangeInput
+                            label="Year"
+                            minName="yearMin"
+                            maxName="yearMax"
+                            minValue={searchFilters.yearMin}
+                            maxValue={searchFilters.yearMax}
+                            onChange={handleFilterChange}
+                            minPlaceholder="e.g. 1990"
+                            maxPlaceholder="e.g. 1999"
+                        />
+                        <RangeInput
+                            label="Rating"
+                            minName="ratingMin"
+                            maxName="ratingMax"
+                            minValue={searchFilters.ratingMin}
+                            maxValue={searchFilters.ratingMax}
+                            onChange={handleFilterChange}
+                            minPlaceholder="e.g. 8"
+                            maxPlaceholder="10"
+                            inputMode="decimal"
+                        />
+                        <RangeInput
+                            label="Runtime"
+                            minName="runtimeMin"
+                            maxName="runtimeMax"
+                            minValue={searchFilters.runtimeMin}
+                            maxValue={searchFilters.runtimeMax}
+                            onChange={handleFilterChange}
+                            minPlaceholder="e.g. 90"
+                            maxPlaceholder="e.g. 2h"
+                            inputMode="text"
+                        />
+                        <fieldset className="w-full">
+                            <legend className="block text-sm font-medium text-gray-300 mb-1.5 ml-1">Certificate</legend>
+                            <div className="flex flex-wrap gap-1.5">
+                                {certificates.map(certificate => {
+                                    const selected = splitFilterValues(searchFilters.certificates).includes(certificate);
+                                    return (
+                                        <button
+                                            key={certificate}
+                                            type="button"
+                                            onClick={() => toggleCertificate(certificate)}
+                                            aria-pressed={selected}
+                                            className={`px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors ${selected ? 'bg-primary-600 border-primary-500 text-white' : 'bg-secondary-900 border-secondary-600 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {certificate}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </fieldset>
+                    </div>
                     
                     <div className="flex justify-end gap-2">
                         <Button type="button" variant="ghost" size="sm" onClick={() => {
-                            setSearchFilters({ title: '', genres: '', actors: '', directors: ''});
-                            setSort('-rating');
+                            setSearchFilters(EMPTY_FILTERS);
+                            setPendingText(NO_PENDING_TEXT);
+                            updateParams({ filters: EMPTY_FILTERS, sort: DEFAULT_PARAMS.sort });
                         }}>Clear</Button>
                         <Button type="submit" size="sm">Apply Filters</Button>
                     </div>
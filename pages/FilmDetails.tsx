@@ -1,16 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { api, addLog } from '../services/api';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { addLog, isAbortError } from '../services/api';
 import { useAuth } from '../App';
-import { Film, WatchlistEntry } from '../types';
+import { Film } from '../types';
 import { Button } from '../components/Button';
 import { geminiService } from '../services/gemini';
 import { Modal } from '../components/Modal';
+import { loadFilm } from '../services/queries';
+import { useStore, selectWatchlistEntryForFilm, selectWatchlistSyncState } from '../services/store';
+import { watchlistMutations } from '../services/watchlistMutations';
+import { useWatchlist } from '../hooks/useWatchlist';
 
 const FilmDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { token } = useAuth();
+  const { token, user } = useAuth();
+  // The watchlist is locked until the account is activated
+  const activated = !!user?.activated;
   
   const [film, setFilm] = useState<Film | null>(null);
   const [loading, setLoading] = useState(true);
@@ -19,8 +25,11 @@ const FilmDetails: React.FC = () => {
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
 
-  // Watchlist State
-  const [watchlistEntry, setWatchlistEntry] = useState<WatchlistEntry | null>(null);
+  // Watchlist State, shared with the Dashboard through the store
+  const filmId = id ? parseInt(id) : NaN;
+  useWatchlist(activated ? token : null);
+  const watchlistEntry = useStore(selectWatchlistEntryForFilm(filmId));
+  const syncState = useStore(selectWatchlistSyncState(filmId));
 
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -28,33 +37,37 @@ const FilmDetails: React.FC = () => {
   const [notes, setNotes] = useState('');
 
   useEffect(() => {
+    // Navigating to another film or leaving the page cancels the pending load
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const loadData = async () => {
-      if (!token || !id) return;
+      if (!token || isNaN(filmId)) return;
       setLoading(true);
+      let shown = false;
       try {
-        const filmId = parseInt(id);
-        
-        // 1. Fetch Film Details
-        const res = await api.getFilm(token, filmId);
-        setFilm(res.film);
-
-        // 2. Check Watchlist Status
-        // We fetch a larger page size to increase chance of finding the item in one go
-        const watchlistRes = await api.getWatchlist(token, false, 1, 100);
-        const entry = watchlistRes.watchlist.find(w => w.film_id === filmId);
-        if (entry) {
-            setWatchlistEntry(entry);
-        }
-
+        // A film we have seen before renders at once and is revalidated in the background
+        await loadFilm(token, filmId, {
+          signal,
+          onData: (data) => {
+            if (signal.aborted) return;
+            shown = true;
+            setFilm(data);
+            setLoading(false);
+          },
+        });
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error(err);
-        setError("Failed to load film details.");
+        // A failed background refresh keeps the cached copy on screen
+        if (!shown) setError("Failed to load film details.");
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
     loadData();
-  }, [id, token]);
+    return () => controller.abort();
+  }, [filmId, token]);
 
   const handleAiAsk = async () => {
     if (!film || aiInsight) return;
@@ -75,47 +88,31 @@ const FilmDetails: React.FC = () => {
       setIsModalOpen(true);
   };
 
+  // Changes show up right away; offline they wait in the sync queue, and a rejected
+  // save is rolled back with a notice
   const handleSaveWatchlist = async () => {
     if (!token || !film) return;
-    try {
-      if (watchlistEntry) {
-        // Edit existing
-        await api.updateWatchlist(token, watchlistEntry.id, { priority, notes });
-        setWatchlistEntry({ ...watchlistEntry, priority, notes });
-        addLog('INFO', 'Updated watchlist entry');
-      } else {
-        // Add new
-        await api.addToWatchlist(token, film.id, priority, notes);
-        
-        // Refetch to get the new ID
-        const watchlistRes = await api.getWatchlist(token, false, 1, 100);
-        const newEntry = watchlistRes.watchlist.find(w => w.film_id === film.id);
-        if (newEntry) setWatchlistEntry(newEntry);
-        addLog('INFO', 'Added to watchlist');
-      }
-      setIsModalOpen(false);
-    } catch (e: any) {
-      addLog('ERR', 'Failed to save watchlist', e.message);
-      alert("Failed to save watchlist entry");
+    setIsModalOpen(false);
+    if (watchlistEntry) {
+      // Edit existing
+      const outcome = await watchlistMutations.update(film.id, { priority, notes });
+      if (outcome === 'saved') addLog('INFO', 'Updated watchlist entry');
+    } else {
+      // Add new
+      const outcome = await watchlistMutations.add(film, priority, notes);
+      if (outcome === 'saved') addLog('INFO', 'Added to watchlist');
     }
   };
 
   const handleRemoveWatchlist = async () => {
-    if (!token || !watchlistEntry) return;
+    if (!token || !film || !watchlistEntry) return;
     
     // Removed blocking confirm for debugging
     // if (!window.confirm("Are you sure you want to remove this film from your watchlist?")) return;
     
-    addLog('INFO', `Attempting to remove watchlist entry: ${watchlistEntry.id}`);
-    try {
-      await api.removeFromWatchlist(token, watchlistEntry.id);
-      setWatchlistEntry(null);
-      addLog('INFO', 'Successfully removed from watchlist (Local state updated)');
-    } catch (e: any) {
-      console.error(e);
-      addLog('ERR', 'Failed to remove', e.message);
-      alert(`Failed to remove: ${e.message}`);
-    }
+    addLog('INFO', `Attempting to remove film ${film.id} from the watchlist`);
+    const outcome = await watchlistMutations.remove(film.id);
+    if (outcome === 'saved') addLog('INFO', 'Successfully removed from watchlist');
   };
 
   if (loading) return <div className="text-center py-20 text-gray-500">Loading film details...</div>;
@@ -186,7 +183,7 @@ const FilmDetails: React.FC = () => {
 
             {/* Quick Actions (Mobile/Tablet) */}
              <div className="md:hidden flex flex-col gap-3 justify-center mb-6">
-               <Button onClick={openWatchlistModal} className="w-full">
+               <Button onClick={openWatchlistModal} className="w-full" disabled={!activated}>
                  {watchlistEntry ? 'Edit Watchlist' : '+ Watchlist'}
                </Button>
                {watchlistEntry && (
@@ -198,7 +195,7 @@ const FilmDetails: React.FC = () => {
 
              {/* Actions (Desktop) */}
              <div className="hidden md:flex gap-4">
-               <Button size="lg" onClick={openWatchlistModal} className="shadow-lg shadow-primary-900/50">
+               <Button size="lg" onClick={openWatchlistModal} className="shadow-lg shadow-primary-900/50" disabled={!activated}>
                    {watchlistEntry ? 'Edit Watchlist Priority' : '+ Add to Watchlist'}
                </Button>
                
@@ -212,6 +209,18 @@ const FilmDetails: React.FC = () => {
                   IMDb
                </Button>
              </div>
+
+             {!activated && (
+               <p className="mt-3 text-xs text-amber-400">
+                 <Link to="/activate" className="underline underline-offset-4 hover:text-amber-300">Activate your account</Link> to add films to your watchlist.
+               </p>
+             )}
+             {syncState === 'saving' && (
+               <p className="mt-3 text-xs text-gray-400 animate-pulse">Saving watchlist changes…</p>
+             )}
+             {syncState === 'queued' && (
+               <p className="mt-3 text-xs text-amber-400">Pending sync: your watchlist changes will be sent when you're back online.</p>
+             )}
           </div>
         </div>
       </div>
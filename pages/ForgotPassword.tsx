@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { api } from '../services/api';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { validate, serverFormErrors } from '../utils/validation';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [touched, setTouched] = useState(false);
+  const [apiError, setApiError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const navigate = useNavigate();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setEmail(e.target.value);
+    if (touched) setError(validate(e.target.value, 'EMAIL').error || '');
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    setTouched(true);
+    setError(validate(e.target.value, 'EMAIL').error || '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setApiError('');
+
+    const emailValidation = validate(email, 'EMAIL');
+    setError(emailValidation.error || '');
+    setTouched(true);
+    if (!emailValidation.isValid) return;
+
+    setLoading(true);
+    try {
+      await api.requestPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      // e.g. no account with that address, or one that was never activated
+      const server = serverFormErrors(err, ['email'], 'Could not send reset instructions. Please try again.');
+      if (server.errors.email) setError(server.errors.email);
+      setApiError(server.apiError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-20 px-4">
+      <div className="text-center mb-8">
+        <div className="w-16 h-16 bg-gradient-to-tr from-primary-600 to-primary-400 rounded-2xl flex items-center justify-center text-white font-bold text-3xl mx-auto mb-4 shadow-lg shadow-primary-900/50">C</div>
+        <h2 className="text-3xl font-bold text-white mb-2 tracking-tight">Forgot Password</h2>
+        <p className="text-gray-400">We'll email you a link to choose a new one.</p>
+      </div>
+
+      <div className="bg-secondary-800/50 backdrop-blur-xl rounded-2xl p-8 border border-secondary-700 shadow-2xl relative overflow-hidden">
+        {/* Decorative background element */}
+        <div className="absolute top-0 right-0 -mt-10 -mr-10 w-32 h-32 bg-primary-500/10 rounded-full blur-3xl pointer-events-none"></div>
+
+        {apiError && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/50 text-red-200 rounded-xl text-sm flex items-start gap-3">
+            <span className="text-xl">⚠️</span>
+            <p className="pt-0.5">{apiError}</p>
+          </div>
+        )}
+
+        {sent ? (
+          <div className="space-y-6 text-center">
+            <p className="text-gray-300">
+              Check <span className="text-white font-medium">{email}</span> for a message with your reset link. It expires in 45 minutes.
+            </p>
+            <Button variant="secondary" className="w-full" onClick={() => navigate('/reset-password')}>
+              I have a reset token
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <Input
+              label="Email Address"
+              name="email"
+              type="email"
+              placeholder="john@example.com"
+              value={email}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              error={error}
+              touched={touched}
+            />
+
+            <div className="pt-4">
+              <Button type="submit" className="w-full py-3 text-lg shadow-lg shadow-primary-900/20" isLoading={loading}>
+                Send Reset Link
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-secondary-700 text-center text-sm text-gray-400">
+          Remembered it?{' '}
+          <Link to="/login" className="text-primary-400 hover:text-primary-300 font-medium hover:underline underline-offset-4">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
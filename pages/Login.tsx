@@ -1,11 +1,11 @@
 
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link, Navigate } from 'react-router-dom';
 import { api } from '../services/api';
 import { useAuth } from '../App';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
-import { validate } from '../utils/validation';
+import { validate, serverFormErrors } from '../utils/validation';
 
 const Login: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -17,8 +17,12 @@ const Login: React.FC = () => {
   const [apiError, setApiError] = useState('');
   const [loading, setLoading] = useState(false);
   
-  const { login } = useAuth();
+  const { login, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Back to the page that sent us here, e.g. a shared Dashboard link with its filters
+  const from = location.state?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : '/';
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -70,14 +74,20 @@ const Login: React.FC = () => {
     try {
       const response = await api.login(formData.email, formData.password);
       login(response);
-      navigate('/');
-    } catch (err: any) {
-      setApiError(err.message || 'Login failed. Please check your credentials.');
+      navigate(returnTo);
+    } catch (err) {
+      const server = serverFormErrors(err, Object.keys(formData), 'Login failed. Please check your credentials.');
+      setErrors(prev => ({ ...prev, ...server.errors }));
+      setTouched(prev => ({ ...prev, ...server.touched }));
+      setApiError(server.apiError);
     } finally {
       setLoading(false);
     }
   };
 
+  // Signed in from another tab while this one sat on the login page
+  if (isAuthenticated) return <Navigate to={returnTo} replace />;
+
   return (
     <div className="max-w-md mx-auto mt-20 px-4">
       <div className="text-center mb-8">
@@ -122,6 +132,12 @@ const Login: React.FC = () => {
             touched={touched.password}
           />
 
+          <div className="text-right px-1">
+            <Link to="/forgot-password" className="text-xs text-gray-400 hover:text-primary-300 hover:underline underline-offset-4">
+              Forgot password?
+            </Link>
+          </div>
+
           <div className="pt-4">
             <Button type="submit" className="w-full py-3 text-lg shadow-lg shadow-primary-900/20" isLoading={loading}>
               Sign In
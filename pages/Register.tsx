@@ -1,11 +1,11 @@
 
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { api } from '../services/api';
+import { api, addLog } from '../services/api';
 import { useAuth } from '../App';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
-import { validate, ValidationResult } from '../utils/validation';
+import { validate, ValidationResult, serverFormErrors } from '../utils/validation';
 
 const Register: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -99,12 +99,21 @@ const Register: React.FC = () => {
     setLoading(true);
     try {
       const registerResponse = await api.register(formData.name, formData.email, formData.password);
-      await api.activate(registerResponse.activation_token.token);
+      // The API hands the activation token straight back. If using it fails the account
+      // still exists, and the activation banner and /activate take it from there.
+      try {
+        await api.activate(registerResponse.activation_token.token);
+      } catch (activationErr) {
+        addLog('ERR', 'Inline activation failed', activationErr instanceof Error ? activationErr.message : String(activationErr));
+      }
       const loginResponse = await api.login(formData.email, formData.password);
       login(loginResponse);
       navigate('/');
-    } catch (err: any) {
-      setApiError(err.message || 'Registration failed. Please try again.');
+    } catch (err) {
+      const server = serverFormErrors(err, Object.keys(formData), 'Registration failed. Please try again.');
+      setErrors(prev => ({ ...prev, ...server.errors }));
+      setTouched(prev => ({ ...prev, ...server.touched }));
+      setApiError(server.apiError);
     } finally {
       setLoading(false);
     }
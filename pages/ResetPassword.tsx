@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { api } from '../services/api';
+import { ValidationError } from '../services/errors';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { validate, serverFormErrors } from '../utils/validation';
+
+const ResetPassword: React.FC = () => {
+  // The emailed link carries the token (#/reset-password?token=...); without it the user types it in
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token') || '';
+
+  const [formData, setFormData] = useState({
+    token: linkToken,
+    password: '',
+    confirmPassword: ''
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [apiError, setApiError] = useState('');
+  const [tokenRejected, setTokenRejected] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const navigate = useNavigate();
+
+  const validateField = (name: string, value: string, data = formData) => {
+    let error = '';
+    if (name === 'token') error = value.trim() ? '' : 'Reset token is required.';
+    if (name === 'password') error = validate(value, 'PASSWORD').error || '';
+    if (name === 'confirmPassword') error = value === data.password ? '' : 'Passwords do not match.';
+    setErrors(prev => ({ ...prev, [name]: error }));
+    return !error;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const next = { ...formData, [name]: value };
+    setFormData(next);
+
+    // Real-time validation if already touched
+    if (touched[name]) validateField(name, value, next);
+    if (name === 'password' && touched.confirmPassword) validateField('confirmPassword', next.confirmPassword, next);
+    if (name === 'token') setTokenRejected(false);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setTouched(prev => ({ ...prev, [name]: true }));
+    validateField(name, value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setApiError('');
+
+    // Validate all fields
+    const valid = ['token', 'password', 'confirmPassword']
+      .map(name => validateField(name, formData[name as keyof typeof formData]))
+      .every(Boolean);
+    setTouched({ token: true, password: true, confirmPassword: true });
+    if (!valid) return;
+
+    setLoading(true);
+    try {
+      await api.resetPassword(formData.token.trim(), formData.password);
+      setDone(true);
+    } catch (err) {
+      // Tokens are single use and expire after 45 minutes; the only fix is a new one
+      if (err instanceof ValidationError && err.fields.token) setTokenRejected(true);
+      const server = serverFormErrors(err, Object.keys(formData), 'Could not reset your password. Please try again.');
+      setErrors(prev => ({ ...prev, ...server.errors }));
+      setTouched(prev => ({ ...prev, ...server.touched }));
+      setApiError(server.apiError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-20 px-4">
+      <div className="text-center mb-8">
+        <div className="w-16 h-16 bg-gradient-to-tr from-primary-600 to-primary-400 rounded-2xl flex items-center justify-center text-white font-bold text-3xl mx-auto mb-4 shadow-lg shadow-primary-900/50">C</div>
+        <h2 className="text-3xl font-bold text-white mb-2 tracking-tight">Reset Password</h2>
+        <p className="text-gray-400">Choose a new password for your account.</p>
+      </div>
+
+      <div className="bg-secondary-800/50 backdrop-blur-xl rounded-2xl p-8 border border-secondary-700 shadow-2xl relative overflow-hidden">
+        {/* Decorative background element */}
+        <div className="absolute -bottom-10 -left-10 w-40 h-40 bg-primary-500/10 rounded-full blur-3xl pointer-events-none"></div>
+
+        {tokenRejected && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/50 text-red-200 rounded-xl text-sm flex items-start gap-3">
+            <span className="text-xl">⚠️</span>
+            <p className="pt-0.5">
+              This reset link is invalid or has expired.{' '}
+              <Link to="/forgot-password" className="underline underline-offset-4 hover:text-white">Request a new one</Link>.
+            </p>
+          </div>
+        )}
+
+        {apiError && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/50 text-red-200 rounded-xl text-sm flex items-start gap-3">
+            <span className="text-xl">⚠️</span>
+            <p className="pt-0.5">{apiError}</p>
+          </div>
+        )}
+
+        {done ? (
+          <div className="space-y-6 text-center">
+            <p className="text-gray-300">Your password was reset. Sign in with your new password.</p>
+            <Button className="w-full" onClick={() => navigate('/login')}>Sign In</Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            {(!linkToken || tokenRejected) && (
+              <Input
+                label="Reset Token"
+                name="token"
+                type="text"
+                placeholder="From your reset email"
+                autoComplete="one-time-code"
+                value={formData.token}
+                onChange={handleChange}
+                onBlur={handleBlur}
+                error={errors.token}
+                touched={touched.token}
+              />
+            )}
+
+            <Input
+              label="New Password"
+              name="password"
+              type="password"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              value={formData.password}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              error={errors.password}
+              touched={touched.password}
+            />
+
+            <Input
+              label="Confirm New Password"
+              name="confirmPassword"
+              type="password"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              value={formData.confirmPassword}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              error={errors.confirmPassword}
+              touched={touched.confirmPassword}
+            />
+
+            {/* Password requirements hint */}
+            <div className="text-xs text-gray-500 px-1 pb-4">
+              Must contain 8+ chars, uppercase, lowercase, number & special char.
+            </div>
+
+            <Button type="submit" className="w-full py-3 text-lg shadow-lg shadow-primary-900/20" isLoading={loading}>
+              Reset Password
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-secondary-700 text-center text-sm text-gray-400">
+          Back to{' '}
+          <Link to="/login" className="text-primary-400 hover:text-primary-300 font-medium hover:underline underline-offset-4">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -4,57 +4,184 @@ import {
   WatchlistResponse, 
   RecommendationsResponse, 
   RegisterResponse,
+  MessageResponse,
+  User,
   WatchlistEntry,
   Film
 } from '../types';
+import { session, REFRESH_MARGIN_MS } from './session';
+import { getApiUrl, getEnvironment, isApiUrl, subscribeToEnvironment } from './config';
+import { AuthError, NetworkError, ContractViolationError, createApiError } from './errors';
+import {
+  Schema,
+  authResponseSchema,
+  refreshResponseSchema,
+  registerResponseSchema,
+  filmListResponseSchema,
+  filmResponseSchema,
+  watchlistResponseSchema,
+  recommendationsResponseSchema,
+  watchlistEntryEnvelopeSchema,
+  messageResponseSchema,
+  userResponseSchema,
+} from './schemas';
+import { store } from './store';
+import { tabSync } from './tabSync';
+import { reauth } from './reauth';
+import { addLog, createRequestId, recordExchange } from './logger';
+import { redactBody, redactHeaders } from './redact';
+import { injectFaults } from './faults';
+import { RetryOption, resolveRetryPolicy, retryDelayForResponse, backoffDelay, sleep } from './retry';
 
-// Live API URL
-const BASE_URL = 'https://zeyadomaro.alwaysdata.net/v1';
+// Logging lives in ./logger; re-exported because most callers already import it from here
+export { addLog, logBuffer } from './logger';
+export type { LogEntry } from './logger';
 
-// --- LOGGING SYSTEM ---
-export type LogEntry = {
-  id: string;
-  timestamp: string;
-  type: 'REQ' | 'RES' | 'ERR' | 'INFO';
-  message: string;
-  details?: any;
+// --- API CLIENT ---
+
+// --- TRANSPORT ---
+// Real network by default; the mock backend when the environment asks for it, or
+// whatever setTransport() installed (e.g. a Node script driving the mock directly).
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+let transportOverride: Transport | null = null;
+let mockTransport: Promise<Transport> | null = null;
+
+export const setTransport = (transport: Transport | null) => {
+  transportOverride = transport;
+};
+
+const getTransport = (): Promise<Transport> | Transport => {
+  if (transportOverride) return transportOverride;
+  if (getEnvironment().transport === 'mock') {
+    // Loaded lazily so the fixtures never ship in the main bundle path
+    if (!mockTransport) {
+      // Mail the mock "sends" (reset and activation tokens) shows up in the debug console
+      mockTransport = import('./mock/server').then(m => m.createMockServer({
+        persist: true,
+        latencyMs: 250,
+        onEmail: (email) => addLog('INFO', `[mock email] to ${email.to}: ${email.subject}`, email.body),
+      }).fetch);
+    }
+    return mockTransport;
+  }
+  return (url, init) => fetch(url, init);
 };
 
-type LogListener = (log: LogEntry) => void;
-const listeners: LogListener[] = [];
+export interface RequestOptions {
+  // Aborting rejects the call with an AbortError (see isAbortError)
+  signal?: AbortSignal;
+  // Overrides the retry policy; writes (POST/PUT/PATCH/DELETE) are only retried when this is set
+  retry?: RetryOption;
+}
+
+export const isAbortError = (e: unknown): boolean =>
+  !!e && typeof e === 'object' && (e as { name?: string }).name === 'AbortError';
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
 
-const notifyListeners = (log: LogEntry) => {
-  listeners.forEach(l => l(log));
+const headersToRecord = (headers?: HeadersInit): Record<string, string> => {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => { record[name] = value; });
+  return record;
 };
 
-export const subscribeToLogs = (listener: LogListener) => {
-  listeners.push(listener);
-  return () => {
-    const idx = listeners.indexOf(listener);
-    if (idx > -1) listeners.splice(idx, 1);
+// Aborts requests that exceed the active environment's timeout or whose caller gave up.
+// Every request passes through here, so this is also where requests are logged and
+// captured for HAR export.
+const fetchWithTimeout = async (url: string, init: RequestInit): Promise<Response> => {
+  const { timeoutMs } = getEnvironment();
+  const callerSignal = init.signal;
+  if (callerSignal?.aborted) throw abortError();
+
+  const method = init.method || 'GET';
+  const requestId = createRequestId();
+  const request = {
+    method,
+    url,
+    headers: redactHeaders(headersToRecord(init.headers)),
+    body: redactBody(typeof init.body === 'string' ? init.body : undefined),
   };
-};
+  const startedAt = Date.now();
+  addLog('REQ', `${method} ${url}`, request.body, { requestId, method, url });
 
-export const addLog = (type: 'REQ' | 'RES' | 'ERR' | 'INFO', message: string, details?: any) => {
-  const entry: LogEntry = {
-    id: Math.random().toString(36).substr(2, 9),
-    timestamp: new Date().toLocaleTimeString(),
-    type,
-    message,
-    details
+  // Records the exchange and returns the log metadata for its outcome
+  const finish = (response?: Response, body = '', error?: string) => {
+    const durationMs = Date.now() - startedAt;
+    recordExchange({
+      requestId,
+      startedAt,
+      durationMs,
+      request,
+      response: response && {
+        status: response.status,
+        statusText: response.statusText,
+        headers: headersToRecord(response.headers),
+        body,
+      },
+      error,
+    });
+    return { requestId, method, url, status: response?.status, durationMs };
   };
-  console.log(`[${type}] ${message}`, details || '');
-  notifyListeners(entry);
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    const transport = await getTransport();
+    const response = await injectFaults(method, url, controller.signal, () => transport(url, { ...init, signal: controller.signal }));
+    // Read a copy for the log; the caller still gets the untouched body
+    const body = redactBody(await response.clone().text().catch(() => '')) ?? '';
+    const http = finish(response, body);
+    addLog('RES', `${response.status} ${response.statusText} - ${method} ${url} (${http.durationMs}ms)`, body ? body.substring(0, 200) : '<empty body>', http);
+    return response;
+  } catch (e) {
+    if (timedOut) {
+      addLog('ERR', `Request timed out after ${timeoutMs}ms - ${url}`, undefined, finish(undefined, '', 'timeout'));
+      throw new NetworkError(`Request timed out after ${timeoutMs}ms`, true);
+    }
+    if (callerSignal?.aborted) {
+      addLog('INFO', `Cancelled ${method} ${url}`, undefined, finish(undefined, '', 'cancelled'));
+      throw abortError();
+    }
+    // fetch() only rejects when no response arrived at all
+    const message = e instanceof Error ? e.message : 'Network request failed';
+    addLog('ERR', `Network error - ${url}`, message, finish(undefined, '', message));
+    throw new NetworkError(message);
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
 };
 
-// --- API CLIENT ---
+// Retries transient failures according to the retry policy, logging every attempt
+const fetchWithRetry = async (url: string, init: RequestInit, retry?: RetryOption): Promise<Response> => {
+  const method = init.method || 'GET';
+  const policy = resolveRetryPolicy(method, retry);
+  if (!policy) return fetchWithTimeout(url, init);
 
-class ApiError extends Error {
-  constructor(public status: number, message: string) {
-    super(message);
-    this.name = 'ApiError';
+  for (let attempt = 1; ; attempt++) {
+    let delay: number | null;
+    try {
+      const response = await fetchWithTimeout(url, init);
+      delay = attempt < policy.maxAttempts ? retryDelayForResponse(policy, response, attempt) : null;
+      if (delay === null) return response;
+      addLog('INFO', `Attempt ${attempt}/${policy.maxAttempts} of ${method} ${url} got ${response.status}, retrying in ${delay}ms`);
+    } catch (e) {
+      if (!(e instanceof NetworkError) || !policy.retryOnNetworkError || attempt >= policy.maxAttempts) throw e;
+      delay = backoffDelay(policy, attempt);
+      addLog('INFO', `Attempt ${attempt}/${policy.maxAttempts} of ${method} ${url} failed (${e.message}), retrying in ${delay}ms`);
+    }
+    await sleep(delay, init.signal);
   }
-}
+};
 
 const getHeaders = (token?: string) => {
   const headers: HeadersInit = {
@@ -66,83 +193,366 @@ const getHeaders = (token?: string) => {
   return headers;
 };
 
-const handleResponse = async <T>(response: Response): Promise<T> => {
-  // Read body text once
+const reportContractViolation = (response: Response, e: ContractViolationError): never => {
+  addLog('ERR', `Contract violation - ${response.url}: ${e.message}`, {
+    path: e.path,
+    expected: e.expected,
+    received: e.received,
+  });
+  throw e;
+};
+
+// Endpoints that return data pass a schema; the body is then required to be JSON
+// matching it. Endpoints without one (watchlist removal) ignore the body.
+const handleResponse = async <T>(response: Response, schema?: Schema<T>): Promise<T> => {
+  // Read body text once (fetchWithTimeout has already logged it)
   const text = await response.text();
-  
-  addLog('RES', `${response.status} ${response.statusText} - ${response.url}`, text ? text.substring(0, 200) : '<empty body>');
 
   // 1. Check for HTTP Errors
   if (!response.ok) {
-    let errorMessage = 'An error occurred';
+    let errorBody: unknown = text;
     try {
-      const errorData = JSON.parse(text);
-      errorMessage = errorData.error || errorMessage;
-      if (typeof errorData.error === 'object') {
-        errorMessage = JSON.stringify(errorData.error);
-      }
+      errorBody = JSON.parse(text);
     } catch {
-      errorMessage = text || response.statusText;
+      // Plain-text error bodies are used as the message as-is
     }
-    throw new ApiError(response.status, errorMessage);
+    throw createApiError(response, errorBody);
   }
 
-  // 2. Handle 204 No Content
-  if (response.status === 204) {
-    return {} as T;
-  }
+  if (!schema) return {} as T;
 
-  // 3. Handle empty body
-  if (!text) return {} as T;
+  // 2. Parse, then check the shape against types.ts (an empty body reaches the schema as undefined)
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    return reportContractViolation(response, new ContractViolationError('$', 'a JSON body', text, response.status));
+  }
 
   try {
-    return JSON.parse(text);
+    return schema(data, '$');
   } catch (e) {
-    addLog('INFO', 'Response was 200 OK but not JSON. Returning empty object.', text);
-    return {} as T;
+    if (e instanceof ContractViolationError) return reportContractViolation(response, e);
+    throw e;
+  }
+};
+
+// --- TOKEN REFRESH ---
+
+// Shared by every caller that needs a new token, so only one refresh is ever in flight
+let refreshPromise: Promise<string> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Every tab holds the same refresh token and a rotating server honours it once, so tabs
+// take turns where the browser supports Web Locks
+const withRefreshLock = <T,>(run: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request('cinegraph-token-refresh', run)
+    : run();
+
+const refreshAccessToken = (): Promise<string> => {
+  if (refreshPromise) return refreshPromise;
+
+  const staleToken = session.getAccessToken();
+  refreshPromise = withRefreshLock(async () => {
+    // Another tab may have refreshed while we waited for the lock; use its token
+    session.syncFromStorage();
+    const current = session.get();
+    if (current && current.accessToken !== staleToken && !session.isExpiring()) {
+      addLog('INFO', 'Access token refreshed by another tab');
+      return current.accessToken;
+    }
+
+    const refreshToken = current?.refreshToken;
+    if (!refreshToken) throw new AuthError(401, 'Session expired');
+
+    const url = `${getApiUrl()}/tokens/refresh`;
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+    const data = await handleResponse(response, refreshResponseSchema);
+    if (!data.access_token) throw new AuthError(401, 'Refresh response did not include an access token');
+
+    session.update(data);
+    addLog('INFO', 'Access token refreshed');
+    return data.access_token;
+  })
+    .catch((e) => {
+      // A rejected refresh token can be replaced by signing in again, if anyone can ask
+      if (e instanceof AuthError && reauth.isAvailable()) {
+        addLog('INFO', 'Token refresh rejected, asking the user to sign in again', e.message);
+        return reauth.waitForToken();
+      }
+      addLog('ERR', 'Token refresh failed, ending session', e.message);
+      session.end('expired');
+      throw e;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
+const scheduleRefresh = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  const current = session.get();
+  if (!current?.expiresAt || !current.refreshToken) return;
+
+  const delay = Math.max(0, current.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    refreshAccessToken().catch(() => { /* already routed to session.end */ });
+  }, delay);
+};
+
+session.subscribe(scheduleRefresh);
+scheduleRefresh();
+
+// Tokens are only valid for the backend that issued them
+subscribeToEnvironment((env) => {
+  addLog('INFO', `Switched API environment to ${env.label} (${getApiUrl()}), signing out`);
+  session.end('logout');
+});
+
+// Resolves the token to send: the live session token wins over the one the caller
+// captured, since it may have been refreshed since the caller last rendered.
+const resolveAccessToken = async (token: string): Promise<string> => {
+  if (refreshPromise) return refreshPromise;
+  if (reauth.isRequired() && reauth.isAvailable()) return reauth.waitForToken();
+  if (session.isExpiring() && session.get()?.refreshToken) return refreshAccessToken();
+  return session.getAccessToken() ?? token;
+};
+
+// fetch() for authenticated endpoints: refreshes proactively, and on a 401 refreshes
+// once and replays the original request.
+const authorizedFetch = async (url: string, init: RequestInit, token: string, retry?: RetryOption): Promise<Response> => {
+  const send = (accessToken: string) => fetchWithRetry(url, {
+    ...init,
+    headers: { ...init.headers, 'Authorization': `Bearer ${accessToken}` },
+  }, retry);
+
+  const response = await send(await resolveAccessToken(token));
+  if (response.status !== 401) return response;
+
+  if (!session.get()?.refreshToken) {
+    if (reauth.isAvailable()) {
+      addLog('INFO', `401 from ${url}, waiting for the user to sign in again`);
+      return send(await reauth.waitForToken());
+    }
+    addLog('ERR', `401 from ${url} and no refresh token available, ending session`);
+    session.end('expired');
+    return response;
   }
+
+  addLog('INFO', `401 from ${url}, refreshing token and replaying request`);
+  return send(await refreshAccessToken());
+};
+
+// --- IN-FLIGHT DEDUPLICATION ---
+// Identical concurrent GETs share one network request. Each caller keeps its own
+// signal: aborting detaches that caller only, and the shared request is cancelled
+// once nobody is waiting for it any more.
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+const dedupe = <T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: SharedRequest = { promise: run(controller.signal), controller, waiting: 0 };
+    entry.promise.then(
+      () => { if (inFlight.get(key) === entry) inFlight.delete(key); },
+      () => { if (inFlight.get(key) === entry) inFlight.delete(key); }
+    );
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  const current = shared;
+  current.waiting++;
+  if (!signal) return current.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      current.waiting--;
+      if (current.waiting === 0) {
+        current.controller.abort();
+        if (inFlight.get(key) === current) inFlight.delete(key);
+      }
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    current.promise.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value as T); },
+      (e) => { signal.removeEventListener('abort', onAbort); reject(e); }
+    );
+  });
 };
 
+// Authenticated GET returning parsed JSON, shared with identical concurrent calls
+const getJson = <T>(url: string, token: string, schema: Schema<T>, options: RequestOptions): Promise<T> =>
+  dedupe(`${url}|${token}`, async (sharedSignal) => {
+    const response = await authorizedFetch(url, {
+      method: 'GET',
+      headers: getHeaders(),
+      signal: sharedSignal,
+    }, token, options.retry);
+    return handleResponse(response, schema);
+  }, options.signal);
+
 export interface FilmFilters {
   title?: string;
   genres?: string;
   actors?: string;
   directors?: string;
+  // Inclusive ranges, either end optional; runtime in minutes
+  yearMin?: number;
+  yearMax?: number;
+  ratingMin?: number;
+  ratingMax?: number;
+  runtimeMin?: number;
+  runtimeMax?: number;
+  // Comma-separated; a film matches any of them
+  certificates?: string;
+}
+
+// A hand-written request from the Debug Console's composer
+export interface RawRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+export interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
 }
 
 export const api = {
   // --- Auth ---
-  register: async (name: string, email: string, password: string): Promise<RegisterResponse> => {
-    const url = `${BASE_URL}/users`;
-    addLog('REQ', `POST ${url}`, { email });
-    const response = await fetch(url, {
+  register: async (name: string, email: string, password: string, options: RequestOptions = {}): Promise<RegisterResponse> => {
+    const url = `${getApiUrl()}/users`;
+    const response = await fetchWithRetry(url, {
       method: 'POST',
       headers: getHeaders(),
       body: JSON.stringify({ name, email, password }),
-    });
-    return handleResponse<RegisterResponse>(response);
+      signal: options.signal,
+    }, options.retry);
+    return handleResponse(response, registerResponseSchema);
   },
 
-  activate: async (token: string): Promise<void> => {
-    const url = `${BASE_URL}/users/activate`;
-    addLog('REQ', `PUT ${url}`);
-    const response = await fetch(url, {
+  // Activating the signed-in account also flips `activated` on the session's user
+  activate: async (token: string, options: RequestOptions = {}): Promise<User> => {
+    const url = `${getApiUrl()}/users/activate`;
+    const response = await fetchWithRetry(url, {
       method: 'PUT',
       headers: getHeaders(),
       body: JSON.stringify({ token }),
-    });
-    return handleResponse<void>(response);
+      signal: options.signal,
+    }, options.retry);
+    const { user } = await handleResponse(response, userResponseSchema);
+    session.updateUser(user);
+    return user;
+  },
+
+  // Emails a fresh activation token; 422 with an `email` field error when there is no
+  // such account or it is already active
+  resendActivation: async (email: string, options: RequestOptions = {}): Promise<MessageResponse> => {
+    const url = `${getApiUrl()}/tokens/activation`;
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ email }),
+      signal: options.signal,
+    }, options.retry);
+    return handleResponse(response, messageResponseSchema);
   },
 
-  login: async (email: string, password: string): Promise<AuthResponse> => {
-    const url = `${BASE_URL}/tokens/authentication`;
-    addLog('REQ', `POST ${url}`, { email });
-    const response = await fetch(url, {
+  login: async (email: string, password: string, options: RequestOptions = {}): Promise<AuthResponse> => {
+    const url = `${getApiUrl()}/tokens/authentication`;
+    const response = await fetchWithRetry(url, {
       method: 'POST',
       headers: getHeaders(),
       body: JSON.stringify({ email, password }),
-    });
-    return handleResponse<AuthResponse>(response);
+      signal: options.signal,
+    }, options.retry);
+    return handleResponse(response, authResponseSchema);
+  },
+
+  // --- Password reset ---
+  // The server emails a reset token to the address; it answers 422 with an `email`
+  // field error when no activated account matches.
+  requestPasswordReset: async (email: string, options: RequestOptions = {}): Promise<MessageResponse> => {
+    const url = `${getApiUrl()}/tokens/password-reset`;
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ email }),
+      signal: options.signal,
+    }, options.retry);
+    return handleResponse(response, messageResponseSchema);
+  },
+
+  // An expired, used or mistyped token comes back as a ValidationError on `token`
+  resetPassword: async (token: string, password: string, options: RequestOptions = {}): Promise<MessageResponse> => {
+    const url = `${getApiUrl()}/users/password`;
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify({ password, token }),
+      signal: options.signal,
+    }, options.retry);
+    return handleResponse(response, messageResponseSchema);
+  },
+
+  // --- Account ---
+  // Changing the email address makes the server ask for activation again
+  updateProfile: async (token: string, updates: { name?: string; email?: string }, options: RequestOptions = {}): Promise<User> => {
+    const url = `${getApiUrl()}/users/me`;
+    const response = await authorizedFetch(url, {
+      method: 'PATCH',
+      headers: getHeaders(),
+      body: JSON.stringify(updates),
+      signal: options.signal,
+    }, token, options.retry);
+    const { user } = await handleResponse(response, userResponseSchema);
+    return user;
+  },
+
+  // A wrong current password comes back as a ValidationError on `current_password`
+  changePassword: async (token: string, currentPassword: string, newPassword: string, options: RequestOptions = {}): Promise<MessageResponse> => {
+    const url = `${getApiUrl()}/users/me/password`;
+    const response = await authorizedFetch(url, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+      signal: options.signal,
+    }, token, options.retry);
+    return handleResponse(response, messageResponseSchema);
+  },
+
+  deleteAccount: async (token: string, options: RequestOptions = {}): Promise<void> => {
+    const url = `${getApiUrl()}/users/me`;
+    const response = await authorizedFetch(url, {
+      method: 'DELETE',
+      signal: options.signal,
+    }, token, options.retry);
+    await handleResponse<void>(response);
   },
 
   // --- Films ---
@@ -151,7 +561,8 @@ export const api = {
     page: number = 1, 
     pageSize: number = 20, 
     sort: string = '-rating', 
-    filters: FilmFilters = {}
+    filters: FilmFilters = {},
+    options: RequestOptions = {}
   ): Promise<FilmListResponse> => {
     const params = new URLSearchParams({
       page: page.toString(),
@@ -163,26 +574,22 @@ export const api = {
     if (filters.genres) params.append('genres', filters.genres);
     if (filters.actors) params.append('actors', filters.actors);
     if (filters.directors) params.append('directors', filters.directors);
+    // Only reaches here for environments that filter on these themselves (see services/filmFilters.ts)
+    if (filters.yearMin !== undefined) params.append('year_min', String(filters.yearMin));
+    if (filters.yearMax !== undefined) params.append('year_max', String(filters.yearMax));
+    if (filters.ratingMin !== undefined) params.append('rating_min', String(filters.ratingMin));
+    if (filters.ratingMax !== undefined) params.append('rating_max', String(filters.ratingMax));
+    if (filters.runtimeMin !== undefined) params.append('runtime_min', String(filters.runtimeMin));
+    if (filters.runtimeMax !== undefined) params.append('runtime_max', String(filters.runtimeMax));
+    if (filters.certificates) params.append('certificates', filters.certificates);
 
-    const url = `${BASE_URL}/films?${params.toString()}`;
-    // Don't log every GET to avoid spamming the debug console
-    // addLog('REQ', `GET ${url}`); 
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-    return handleResponse<FilmListResponse>(response);
+    const url = `${getApiUrl()}/films?${params.toString()}`;
+    return getJson(url, token, filmListResponseSchema, options);
   },
 
-  getFilm: async (token: string, id: number): Promise<{ film: Film }> => {
-    const url = `${BASE_URL}/films/${id}`;
-    addLog('REQ', `GET ${url}`);
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-    return handleResponse<{ film: Film }>(response);
+  getFilm: async (token: string, id: number, options: RequestOptions = {}): Promise<{ film: Film }> => {
+    const url = `${getApiUrl()}/films/${id}`;
+    return getJson(url, token, filmResponseSchema, options);
   },
 
   // --- Watchlist ---
@@ -190,7 +597,8 @@ export const api = {
     token: string, 
     watched: boolean = false, 
     page: number = 1, 
-    pageSize: number = 20
+    pageSize: number = 20,
+    options: RequestOptions = {}
   ): Promise<WatchlistResponse> => {
     const params = new URLSearchParams({
       watched: watched.toString(),
@@ -198,59 +606,86 @@ export const api = {
       page: page.toString(),
       page_size: pageSize.toString(),
     });
-    const url = `${BASE_URL}/watchlist?${params.toString()}`;
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-    return handleResponse<WatchlistResponse>(response);
+    const url = `${getApiUrl()}/watchlist?${params.toString()}`;
+    return getJson(url, token, watchlistResponseSchema, options);
   },
 
-  addToWatchlist: async (token: string, filmId: number, priority: number, notes: string): Promise<void> => {
-    const url = `${BASE_URL}/watchlist`;
-    addLog('REQ', `POST ${url}`, { filmId, priority });
-    const response = await fetch(url, {
+  addToWatchlist: async (token: string, filmId: number, priority: number, notes: string, options: RequestOptions = {}): Promise<WatchlistEntry | null> => {
+    const url = `${getApiUrl()}/watchlist`;
+    const response = await authorizedFetch(url, {
       method: 'POST',
-      headers: getHeaders(token),
+      headers: getHeaders(),
       body: JSON.stringify({ film_id: filmId, priority, notes }),
-    });
-    return handleResponse<void>(response);
+      signal: options.signal,
+    }, token, options.retry);
+    const entry = await handleResponse(response, watchlistEntryEnvelopeSchema);
+    // Without the created entry we don't know its id, so have the watchlist refetched
+    if (entry) store.upsertWatchlistEntry(entry);
+    else store.invalidateWatchlist();
+    tabSync.publishWatchlistChange(entry ? { kind: 'upsert', entry } : { kind: 'invalidate' });
+    return entry;
   },
 
-  updateWatchlist: async (token: string, entryId: number, updates: Partial<WatchlistEntry>): Promise<void> => {
-    const url = `${BASE_URL}/watchlist/${entryId}`;
-    addLog('REQ', `PATCH ${url}`, updates);
-    const response = await fetch(url, {
+  updateWatchlist: async (token: string, entryId: number, updates: Partial<WatchlistEntry>, options: RequestOptions = {}): Promise<WatchlistEntry | null> => {
+    const url = `${getApiUrl()}/watchlist/${entryId}`;
+    const response = await authorizedFetch(url, {
       method: 'PATCH',
-      headers: getHeaders(token),
+      headers: getHeaders(),
       body: JSON.stringify(updates),
-    });
-    return handleResponse<void>(response);
+      signal: options.signal,
+    }, token, options.retry);
+    const entry = await handleResponse(response, watchlistEntryEnvelopeSchema);
+    if (entry) store.upsertWatchlistEntry(entry);
+    else store.patchWatchlistEntry(entryId, updates);
+    tabSync.publishWatchlistChange(entry ? { kind: 'upsert', entry } : { kind: 'patch', entryId, updates });
+    return entry;
   },
 
-  removeFromWatchlist: async (token: string, entryId: number): Promise<void> => {
-    const url = `${BASE_URL}/watchlist/${entryId}`;
-    addLog('REQ', `DELETE ${url}`);
+  removeFromWatchlist: async (token: string, entryId: number, options: RequestOptions = {}): Promise<void> => {
+    const url = `${getApiUrl()}/watchlist/${entryId}`;
     
     // Explicitly NO Content-Type for DELETE
-    const headers: HeadersInit = {};
-    if (token) headers['Authorization'] = `Bearer ${token}`;
-
-    const response = await fetch(url, {
+    const response = await authorizedFetch(url, {
       method: 'DELETE',
-      headers: headers,
-    });
-    return handleResponse<void>(response);
+      signal: options.signal,
+    }, token, options.retry);
+    await handleResponse<void>(response);
+    store.removeWatchlistEntry(entryId);
+    tabSync.publishWatchlistChange({ kind: 'remove', entryId });
   },
 
   // --- Recommendations ---
-  getRecommendations: async (token: string): Promise<RecommendationsResponse> => {
-    const url = `${BASE_URL}/recommendations?limit=12`;
-    addLog('REQ', `GET ${url}`);
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-    return handleResponse<RecommendationsResponse>(response);
+  getRecommendations: async (token: string, options: RequestOptions = {}): Promise<RecommendationsResponse> => {
+    const url = `${getApiUrl()}/recommendations?limit=12`;
+    return getJson(url, token, recommendationsResponseSchema, options);
+  },
+
+  // --- Debugging ---
+  // Sends a composed request through the same client as everything else (bearer token,
+  // refresh and logging included), exactly once. Every status is a result here, not an error.
+  // Only the active API gets the token; any other host is sent the request without credentials.
+  sendRaw: async (request: RawRequest, options: RequestOptions = {}): Promise<RawResponse> => {
+    const toApi = isApiUrl(request.url);
+    const init: RequestInit = {
+      method: request.method,
+      // Like the real calls, only requests with a body declare a content type
+      headers: request.body ? getHeaders() : {},
+      body: request.body || undefined,
+      credentials: toApi ? undefined : 'omit',
+      signal: options.signal,
+    };
+    const token = toApi ? session.getAccessToken() : null;
+    const startedAt = Date.now();
+    const response = token
+      ? await authorizedFetch(request.url, init, token, false)
+      : await fetchWithRetry(request.url, init, false);
+    const body = await response.text();
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: headersToRecord(response.headers),
+      body,
+      durationMs: Date.now() - startedAt,
+    };
   }
 };
\ No newline at end of file
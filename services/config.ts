@@ -0,0 +1,123 @@
+import environmentsFile from '../environments.json';
+import { storage } from '../utils/storage';
+
+// --- API ENVIRONMENTS ---
+// Profiles come from three places, later ones overriding earlier ones by id:
+//   1. environments.json (checked in, shared by the team)
+//   2. VITE_API_* variables (per machine, e.g. in .env.local)
+//   3. the user's last choice in the DebugConsole (persisted in localStorage)
+
+// Film filters beyond title/genres/actors/directors
+export type FilmRangeFilter = 'year' | 'rating' | 'runtime' | 'certificate';
+
+export interface ApiEnvironment {
+  id: string;
+  label: string;
+  baseUrl: string;
+  apiVersion: string;
+  timeoutMs: number;
+  // 'mock' serves every request from the in-browser mock backend
+  transport: 'http' | 'mock';
+  // Range filters the films endpoint applies itself; the client applies the others
+  serverFilters: FilmRangeFilter[];
+  source: 'file' | 'env';
+}
+
+const RANGE_FILTERS: FilmRangeFilter[] = ['year', 'rating', 'runtime', 'certificate'];
+
+const rangeFilters = (names: string[] | undefined): FilmRangeFilter[] =>
+  (names || []).filter((n): n is FilmRangeFilter => (RANGE_FILTERS as string[]).includes(n));
+
+const STORAGE_KEY = 'api_environment';
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Empty when the module runs outside Vite (e.g. plain Node scripts)
+const viteEnv: Partial<ImportMetaEnv> = import.meta.env || {};
+
+const fromFile = (): ApiEnvironment[] =>
+  environmentsFile.environments.map(e => ({
+    ...e,
+    timeoutMs: e.timeoutMs || DEFAULT_TIMEOUT_MS,
+    transport: e.transport === 'mock' ? 'mock' as const : 'http' as const,
+    serverFilters: rangeFilters((e as { serverFilters?: string[] }).serverFilters),
+    source: 'file' as const,
+  }));
+
+const fromViteEnv = (): ApiEnvironment | null => {
+  const baseUrl = viteEnv.VITE_API_BASE_URL;
+  if (!baseUrl) return null;
+  return {
+    id: viteEnv.VITE_API_ENV_ID || 'env',
+    label: viteEnv.VITE_API_ENV_LABEL || 'From .env',
+    baseUrl,
+    apiVersion: viteEnv.VITE_API_VERSION ?? '/v1',
+    timeoutMs: parseInt(viteEnv.VITE_API_TIMEOUT_MS || '') || DEFAULT_TIMEOUT_MS,
+    transport: viteEnv.VITE_API_TRANSPORT === 'mock' ? 'mock' : 'http',
+    serverFilters: rangeFilters(viteEnv.VITE_API_SERVER_FILTERS?.split(',').map(f => f.trim())),
+    source: 'env',
+  };
+};
+
+const buildEnvironments = (): ApiEnvironment[] => {
+  const byId = new Map<string, ApiEnvironment>();
+  fromFile().forEach(e => byId.set(e.id, e));
+  const envProfile = fromViteEnv();
+  if (envProfile) byId.set(envProfile.id, envProfile);
+  return Array.from(byId.values());
+};
+
+export const environments: ApiEnvironment[] = buildEnvironments();
+
+const defaultEnvironmentId = (): string => {
+  const preferred = viteEnv.VITE_API_ENV || (fromViteEnv()?.id) || environmentsFile.default;
+  return environments.some(e => e.id === preferred) ? preferred : environments[0].id;
+};
+
+const loadSelection = (): ApiEnvironment => {
+  const stored = storage.getItem(STORAGE_KEY);
+  return environments.find(e => e.id === stored)
+    || environments.find(e => e.id === defaultEnvironmentId())!;
+};
+
+let active: ApiEnvironment = loadSelection();
+
+type EnvironmentListener = (env: ApiEnvironment) => void;
+const listeners: EnvironmentListener[] = [];
+
+export const getEnvironment = (): ApiEnvironment => active;
+
+// Full prefix for API calls, e.g. https://host/v1
+export const getApiUrl = (): string =>
+  `${active.baseUrl.replace(/\/+$/, '')}${active.apiVersion}`;
+
+// Scheme and host, also for schemes like mock:// whose URL.origin is "null"
+const originOf = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return null;
+  }
+};
+
+// Whether a URL points at the active API, and so may be sent the session's token
+export const isApiUrl = (url: string): boolean => {
+  const origin = originOf(url);
+  return origin !== null && origin === originOf(getApiUrl());
+};
+
+export const setEnvironment = (id: string) => {
+  const next = environments.find(e => e.id === id);
+  if (!next || next.id === active.id) return;
+  active = next;
+  storage.setItem(STORAGE_KEY, next.id);
+  listeners.forEach(l => l(next));
+};
+
+export const subscribeToEnvironment = (listener: EnvironmentListener) => {
+  listeners.push(listener);
+  return () => {
+    const idx = listeners.indexOf(listener);
+    if (idx > -1) listeners.splice(idx, 1);
+  };
+};
@@ -0,0 +1,47 @@
+import { Film } from '../types';
+import { session } from './session';
+
+// --- DASHBOARD SNAPSHOTS ---
+// What the Dashboard had on screen when the user navigated away (to a film's page, say),
+// keyed by history entry, so going back restores the loaded results and scroll position
+// instead of starting again from page 1. Kept in memory: a reload starts fresh.
+
+export interface DashboardSnapshot {
+  films: Film[];
+  recommendations: Film[];
+  loadedPages: number;
+  hasMore: boolean;
+  scrollY: number;
+  savedAt: number;
+}
+
+// Older than this, results are likely out of date and get loaded again instead
+export const SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+
+// Enough for a few back/forward steps; older entries are dropped first
+const MAX_SNAPSHOTS = 10;
+
+const snapshots = new Map<string, DashboardSnapshot>();
+
+export const dashboardSnapshots = {
+  save: (key: string, snapshot: Omit<DashboardSnapshot, 'savedAt'>) => {
+    snapshots.delete(key);
+    snapshots.set(key, { ...snapshot, savedAt: Date.now() });
+    while (snapshots.size > MAX_SNAPSHOTS) snapshots.delete(snapshots.keys().next().value!);
+  },
+
+  // Expired snapshots are discarded rather than returned
+  get: (key: string): DashboardSnapshot | undefined => {
+    const snapshot = snapshots.get(key);
+    if (snapshot && Date.now() - snapshot.savedAt > SNAPSHOT_TTL_MS) {
+      snapshots.delete(key);
+      return undefined;
+    }
+    return snapshot;
+  },
+};
+
+// Like the entity store, nothing of one user's results survives into another session
+session.subscribe((event) => {
+  if (event.type === 'ended' || event.type === 'started') snapshots.clear();
+});
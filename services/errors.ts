@@ -0,0 +1,121 @@
+// --- API ERROR TAXONOMY ---
+// Every failure coming out of services/api.ts is an ApiError subclass, so callers can
+// branch with instanceof instead of sniffing status codes out of messages.
+
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  // Field-level messages when the server sent { "error": { "field": "message" } }
+  fields?: FieldErrors;
+
+  constructor(public status: number, message: string, fields?: FieldErrors) {
+    super(message);
+    this.name = 'ApiError';
+    this.fields = fields;
+  }
+}
+
+// 400/422: the request was understood but its content was rejected
+export class ValidationError extends ApiError {
+  declare fields: FieldErrors;
+
+  constructor(status: number, message: string, fields: FieldErrors = {}) {
+    super(status, message, fields);
+    this.name = 'ValidationError';
+  }
+}
+
+// 401/403: missing, invalid or insufficient credentials
+export class AuthError extends ApiError {
+  constructor(status: number, message: string) {
+    super(status, message);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409: the resource changed underneath us or already exists
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message: string, public retryAfterMs: number | null) {
+    super(429, message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The request never produced an HTTP response (offline, DNS, CORS, timeout)
+export class NetworkError extends ApiError {
+  constructor(message: string, public timedOut = false) {
+    super(0, message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(status: number, message: string) {
+    super(status, message);
+    this.name = 'ServerError';
+  }
+}
+
+const describeFields = (fields: FieldErrors) =>
+  Object.entries(fields).map(([field, msg]) => `${field} ${msg}`).join('; ');
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Builds the matching error class from a failed response's status and parsed body
+export const createApiError = (response: Response, body: unknown): ApiError => {
+  const { status } = response;
+  const payload = (body && typeof body === 'object' && 'error' in body) ? (body as { error: unknown }).error : body;
+
+  let message = response.statusText || 'An error occurred';
+  let fields: FieldErrors | undefined;
+  if (typeof payload === 'string' && payload) {
+    message = payload;
+  } else if (payload && typeof payload === 'object') {
+    fields = Object.fromEntries(Object.entries(payload).map(([k, v]) => [k, String(v)]));
+    message = describeFields(fields);
+  }
+
+  if (fields || status === 400 || status === 422) return new ValidationError(status, message, fields);
+  if (status === 401 || status === 403) return new AuthError(status, message);
+  if (status === 404) return new NotFoundError(message);
+  if (status === 409) return new ConflictError(message);
+  if (status === 429) return new RateLimitedError(message, parseRetryAfter(response.headers.get('Retry-After')));
+  if (status >= 500) return new ServerError(status, message);
+  return new ApiError(status, message);
+};
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+};
+
+// A successful response whose body does not match the shape declared in types.ts
+export class ContractViolationError extends ApiError {
+  constructor(public path: string, public expected: string, public received: unknown, status = 200) {
+    super(status, `Unexpected API response at ${path}: expected ${expected}, got ${describeValue(received)}`);
+    this.name = 'ContractViolationError';
+  }
+}
@@ -0,0 +1,182 @@
+import { getApiUrl } from './config';
+import { addLog } from './logger';
+import { sleep } from './retry';
+import { storage } from '../utils/storage';
+
+// --- FAULT INJECTION ---
+// Developer-only: rules set up in the Debug Console make matching requests slow, fail
+// with a chosen status, or come back with a truncated or empty body, so loading states,
+// error handling and retries can be exercised on demand. Rules persist across reloads;
+// the console shows when they are switched on so they aren't forgotten.
+
+export type FaultFailure = 'status' | 'malformed-json' | 'empty-body';
+
+export interface FaultRule {
+  id: string;
+  enabled: boolean;
+  method: string; // '*' for any
+  // Endpoint relative to the API root, ':name' matching any one segment (e.g. /watchlist/:id);
+  // empty matches every endpoint
+  path: string;
+  latencyMs: number;
+  failureRate: number; // percent of matching requests that fail
+  failure: FaultFailure;
+  statusCodes: number[]; // one is picked at random for 'status' failures
+}
+
+export interface FaultState {
+  enabled: boolean;
+  rules: FaultRule[];
+}
+
+// Statuses on offer; all of them allow a body, which the error handling expects to read
+export const FAULT_STATUS_CODES = [400, 401, 403, 404, 409, 422, 429, 500, 502, 503, 504];
+
+// Shown only in development builds, or with VITE_ENABLE_FAULTS=true
+const viteEnv: Partial<ImportMetaEnv> = import.meta.env || {};
+const AVAILABLE = !!viteEnv.DEV || viteEnv.VITE_ENABLE_FAULTS === 'true';
+
+const STORAGE_KEY = 'fault_injection';
+
+const load = (): FaultState => {
+  try {
+    const stored = JSON.parse(storage.getItem(STORAGE_KEY) || 'null');
+    if (stored && Array.isArray(stored.rules)) return stored;
+  } catch {
+    // Unreadable settings just start over
+  }
+  return { enabled: false, rules: [] };
+};
+
+let state: FaultState = AVAILABLE ? load() : { enabled: false, rules: [] };
+
+type FaultListener = (state: FaultState) => void;
+const listeners: FaultListener[] = [];
+
+const setState = (next: FaultState) => {
+  state = next;
+  storage.setItem(STORAGE_KEY, JSON.stringify(state));
+  listeners.forEach(l => l(state));
+};
+
+// The part of the URL a rule's path is compared with: /films/7 for .../v1/films/7?x=1
+const endpointPath = (url: string) => {
+  const withoutQuery = url.split('?')[0];
+  const base = getApiUrl();
+  if (withoutQuery.startsWith(base)) return withoutQuery.slice(base.length) || '/';
+  try {
+    return new URL(withoutQuery).pathname.replace(/^\/v\d+/, '') || '/';
+  } catch {
+    return withoutQuery;
+  }
+};
+
+const matchesPath = (pattern: string, path: string) => {
+  if (!pattern.trim()) return true;
+  const expected = pattern.trim().replace(/\/+$/, '').split('/');
+  const actual = path.replace(/\/+$/, '').split('/');
+  return expected.length === actual.length
+    && expected.every((segment, i) => segment.startsWith(':') || segment === actual[i]);
+};
+
+const matches = (rule: FaultRule, method: string, url: string) =>
+  rule.enabled
+  && (rule.method === '*' || rule.method === method)
+  && matchesPath(rule.path, endpointPath(url));
+
+// Responses with these statuses may not carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const withBody = (response: Response, body: string) =>
+  new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+
+// Runs `send` for the request, with whatever the matching rules inject around it
+export const injectFaults = async (
+  method: string,
+  url: string,
+  signal: AbortSignal,
+  send: () => Promise<Response>
+): Promise<Response> => {
+  if (!state.enabled) return send();
+  const rules = state.rules.filter(r => matches(r, method, url));
+  if (rules.length === 0) return send();
+
+  const latencyMs = rules.reduce((total, r) => total + Math.max(0, r.latencyMs), 0);
+  if (latencyMs > 0) {
+    addLog('INFO', `[fault] Delaying ${method} ${url} by ${latencyMs}ms`);
+    // Shares the request's signal, so a long enough delay trips the timeout like a slow server would
+    await sleep(latencyMs, signal);
+  }
+
+  const failing = rules.find(r => Math.random() * 100 < r.failureRate);
+  if (!failing) return send();
+
+  if (failing.failure === 'status') {
+    const codes = failing.statusCodes.length > 0 ? failing.statusCodes : [500];
+    const status = codes[Math.floor(Math.random() * codes.length)];
+    addLog('INFO', `[fault] Answering ${method} ${url} with ${status}`);
+    return new Response(JSON.stringify({ error: `injected fault (${status})` }), {
+      status,
+      statusText: 'Injected Fault',
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // The request really goes out; only what comes back is mangled
+  const response = await send();
+  const text = await response.text();
+  if (failing.failure === 'empty-body') {
+    addLog('INFO', `[fault] Emptying the body of ${method} ${url}`);
+    return withBody(response, '');
+  }
+  addLog('INFO', `[fault] Truncating the JSON body of ${method} ${url}`);
+  return withBody(response, text.slice(0, Math.max(1, Math.floor(text.length / 2))) || '{');
+};
+
+let nextRuleId = 1;
+
+export const faults = {
+  available: AVAILABLE,
+
+  getState: (): FaultState => state,
+
+  // Rules switched on and actually able to do something
+  activeCount: (): number =>
+    state.enabled ? state.rules.filter(r => r.enabled && (r.latencyMs > 0 || r.failureRate > 0)).length : 0,
+
+  setEnabled: (enabled: boolean) => setState({ ...state, enabled }),
+
+  addRule: () => setState({
+    ...state,
+    rules: [...state.rules, {
+      id: `${Date.now()}-${nextRuleId++}`,
+      enabled: true,
+      method: '*',
+      path: '',
+      // Inert until configured
+      latencyMs: 0,
+      failureRate: 0,
+      failure: 'status',
+      statusCodes: [500],
+    }],
+  }),
+
+  updateRule: (id: string, updates: Partial<FaultRule>) => setState({
+    ...state,
+    rules: state.rules.map(r => r.id === id ? { ...r, ...updates } : r),
+  }),
+
+  removeRule: (id: string) => setState({ ...state, rules: state.rules.filter(r => r.id !== id) }),
+
+  subscribe: (listener: FaultListener) => {
+    listeners.push(listener);
+    return () => {
+      const idx = listeners.indexOf(listener);
+      if (idx > -1) listeners.splice(idx, 1);
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import { Film } from '../types';
+import { parseRuntime } from '../utils/film';
+import type { FilmFilters } from './api';
+import { getEnvironment, FilmRangeFilter } from './config';
+
+// --- FILM RANGE FILTERS ---
+// Year, rating, runtime and certificate filters. Environments whose films endpoint
+// handles them (ApiEnvironment.serverFilters) get them as query parameters; for every
+// other one they're left off the request and applied here to what comes back.
+
+const RANGE_FIELDS: Record<FilmRangeFilter, Array<keyof FilmFilters>> = {
+  year: ['yearMin', 'yearMax'],
+  rating: ['ratingMin', 'ratingMax'],
+  runtime: ['runtimeMin', 'runtimeMax'],
+  certificate: ['certificates'],
+};
+
+const isSet = (filters: FilmFilters, range: FilmRangeFilter) =>
+  RANGE_FIELDS[range].some(field => filters[field] !== undefined && filters[field] !== '');
+
+// The filters in use that the active environment can't apply itself
+export const clientSideRanges = (filters: FilmFilters): FilmRangeFilter[] =>
+  (Object.keys(RANGE_FIELDS) as FilmRangeFilter[])
+    .filter(range => isSet(filters, range) && !getEnvironment().serverFilters.includes(range));
+
+// What the request carries: everything but the client-side ranges
+export const serverFilters = (filters: FilmFilters, clientRanges: FilmRangeFilter[]): FilmFilters => {
+  const server = { ...filters };
+  clientRanges.forEach(range => RANGE_FIELDS[range].forEach(field => { delete server[field]; }));
+  return server;
+};
+
+const within = (value: number | null, min?: number, max?: number) =>
+  (min === undefined && max === undefined)
+  || (value !== null && (min === undefined || value >= min) && (max === undefined || value <= max));
+
+const certificateList = (certificates: string) =>
+  certificates.split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+
+// Whether a film passes the given ranges. Runtimes come in several formats; a film
+// whose runtime can't be read is left out whenever runtime is filtered on.
+export const matchesRanges = (film: Film, filters: FilmFilters, ranges: FilmRangeFilter[]): boolean =>
+  ranges.every(range => {
+    switch (range) {
+      case 'year': return within(film.year, filters.yearMin, filters.yearMax);
+      case 'rating': return within(film.rating, filters.ratingMin, filters.ratingMax);
+      case 'runtime': return within(parseRuntime(film.runtime), filters.runtimeMin, filters.runtimeMax);
+      case 'certificate': return certificateList(filters.certificates || '').includes((film.certificate || '').trim().toLowerCase());
+    }
+  });
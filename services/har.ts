@@ -0,0 +1,75 @@
+import { HttpExchange } from './logger';
+
+// --- HAR EXPORT ---
+// Turns captured exchanges into a HAR 1.2 document, the format browser dev tools and
+// most HTTP tooling import, so a session can be attached to a backend bug report.
+// Only the fields HAR requires are filled in; sizes we never measured are -1.
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+const toNameValues = (record: Record<string, string>): HarNameValue[] =>
+  Object.entries(record).map(([name, value]) => ({ name, value }));
+
+const queryString = (url: string): HarNameValue[] => {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+};
+
+const mimeType = (headers: Record<string, string>) =>
+  headers['content-type'] || 'application/octet-stream';
+
+const toEntry = (exchange: HttpExchange) => {
+  const { request, response } = exchange;
+  return {
+    startedDateTime: new Date(exchange.startedAt).toISOString(),
+    time: exchange.durationMs,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(request.headers),
+      queryString: queryString(request.url),
+      ...(request.body !== undefined && {
+        postData: { mimeType: mimeType(request.headers), text: request.body },
+      }),
+      headersSize: -1,
+      bodySize: request.body?.length ?? 0,
+    },
+    // HAR has no way to say "no response"; status 0 is what browsers export for that
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(response?.headers ?? {}),
+      content: {
+        size: response?.body.length ?? 0,
+        mimeType: response ? mimeType(response.headers) : 'x-unknown',
+        text: response?.body ?? '',
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: response?.body.length ?? -1,
+      ...(exchange.error && { _error: exchange.error }),
+    },
+    cache: {},
+    timings: { send: 0, wait: exchange.durationMs, receive: 0 },
+    _requestId: exchange.requestId,
+  };
+};
+
+export const buildHar = (exchanges: HttpExchange[]) => ({
+  log: {
+    version: '1.2',
+    creator: { name: 'CineGraph Debug Console', version: '1.0' },
+    pages: [],
+    entries: exchanges.map(toEntry),
+  },
+});
@@ -0,0 +1,231 @@
+import { storage } from '../utils/storage';
+import { createKeyValueStore, isIndexedDbAvailable } from '../utils/idb';
+import { redactText, redactValue } from './redact';
+
+// --- LOGGING SYSTEM ---
+// Everything the Debug Console shows. Log entries and the HTTP exchanges behind them
+// (what a HAR export is built from) live in ring buffers of a configurable size, so
+// nothing is lost while the console is closed. Entries are redacted before anything
+// sees them, dropped below the capture level, and optionally mirrored to IndexedDB so
+// they survive a reload or crash.
+
+export type LogType = 'REQ' | 'RES' | 'ERR' | 'INFO';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Set on entries that belong to an HTTP request
+export interface HttpLogInfo {
+  requestId: string; // correlation id shared by a request's REQ and RES/ERR entries
+  method: string;
+  url: string;
+  status?: number;
+  durationMs?: number;
+}
+
+export type LogEntry = {
+  id: string;
+  timestamp: string;
+  type: LogType;
+  level: LogLevel;
+  message: string;
+  details?: any;
+  http?: HttpLogInfo;
+  restored?: boolean; // read back from IndexedDB, i.e. from an earlier page load
+};
+
+export interface HttpExchange {
+  requestId: string;
+  startedAt: number; // epoch ms
+  durationMs: number;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  // Missing when no response arrived (network error, timeout, cancellation)
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  error?: string;
+}
+
+export const BUFFER_SIZES = [50, 200, 500, 1000];
+const DEFAULT_BUFFER_SIZE = 200;
+const BUFFER_SIZE_KEY = 'debug_log_buffer_size';
+const LEVEL_KEY = 'debug_log_level';
+const PERSIST_KEY = 'debug_log_persist';
+
+// Production only keeps what points at a problem; development keeps everything
+const viteEnv: Partial<ImportMetaEnv> = import.meta.env || {};
+const DEFAULT_LEVEL: LogLevel = viteEnv.PROD ? 'warn' : 'debug';
+
+// Requests and responses are routine; a response with an error status is worth a look
+const levelOf = (type: LogType, http?: HttpLogInfo): LogLevel => {
+  if (type === 'ERR') return 'error';
+  if (type === 'INFO') return 'info';
+  return (http?.status ?? 0) >= 400 ? 'warn' : 'debug';
+};
+
+const loadBufferSize = (): number => {
+  const stored = parseInt(storage.getItem(BUFFER_SIZE_KEY) || '');
+  return BUFFER_SIZES.includes(stored) ? stored : DEFAULT_BUFFER_SIZE;
+};
+
+const loadLevel = (): LogLevel => {
+  const stored = storage.getItem(LEVEL_KEY) as LogLevel | null;
+  return stored && LOG_LEVELS.includes(stored) ? stored : DEFAULT_LEVEL;
+};
+
+type LogListener = () => void;
+const listeners: LogListener[] = [];
+
+let bufferSize = loadBufferSize();
+let minLevel = loadLevel();
+let entries: LogEntry[] = [];
+let exchanges: HttpExchange[] = [];
+
+const notify = () => {
+  listeners.forEach(l => l());
+};
+
+// --- Persistence ---
+// One record per entry, keyed by a zero-padded sequence number so the store's key order
+// is log order; the oldest records are deleted as the buffer wraps.
+
+const persistedLog = createKeyValueStore<LogEntry>('cinegraph-logs');
+const keyFor = (seq: number) => String(seq).padStart(12, '0');
+
+let persisting = storage.getItem(PERSIST_KEY) === 'true' && isIndexedDbAvailable();
+let persistedKeys: string[] = [];
+let nextSeq = 0;
+
+// Every write waits for the previous one (and the initial restore), so keys stay in order
+let persistQueue: Promise<void> = Promise.resolve();
+const enqueue = (task: () => Promise<void>) => {
+  persistQueue = persistQueue.then(task).catch(() => { /* best effort, like all IndexedDB use here */ });
+};
+
+const prunePersisted = () => {
+  const dropped = persistedKeys.splice(0, Math.max(0, persistedKeys.length - bufferSize));
+  return Promise.all(dropped.map(key => persistedLog.remove(key))).then(() => undefined);
+};
+
+const persistEntries = (batch: LogEntry[]) => enqueue(async () => {
+  for (const entry of batch) {
+    const key = keyFor(nextSeq++);
+    persistedKeys.push(key);
+    await persistedLog.set(key, entry);
+  }
+  await prunePersisted();
+});
+
+const restore = () => enqueue(async () => {
+  const stored = await persistedLog.entries();
+  persistedKeys = stored.map(([key]) => key);
+  nextSeq = stored.length > 0 ? parseInt(persistedKeys[persistedKeys.length - 1]) + 1 : 0;
+  if (stored.length === 0) return;
+  const earlier = stored.map(([, entry]) => ({ ...entry, restored: true }));
+  entries = [...earlier, ...entries].slice(-bufferSize);
+  notify();
+});
+
+if (persisting) restore();
+
+export const createRequestId = () => Math.random().toString(36).slice(2, 10);
+
+export const addLog = (type: LogType, message: string, details?: any, http?: HttpLogInfo) => {
+  const level = levelOf(type, http);
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+  const entry: LogEntry = {
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: new Date().toLocaleTimeString(),
+    type,
+    level,
+    message: redactText(message),
+    details: redactValue(details),
+    http,
+  };
+  const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  write(`[${type}] ${entry.message}`, entry.details || '');
+  entries = [...entries, entry].slice(-bufferSize);
+  if (persisting) persistEntries([entry]);
+  notify();
+};
+
+// Callers redact the request and response themselves (see fetchWithTimeout)
+export const recordExchange = (exchange: HttpExchange) => {
+  exchanges = [...exchanges, exchange].slice(-bufferSize);
+  notify();
+};
+
+export const logBuffer = {
+  getEntries: (): LogEntry[] => entries,
+
+  getExchanges: (): HttpExchange[] => exchanges,
+
+  getSize: (): number => bufferSize,
+
+  setSize: (size: number) => {
+    bufferSize = size;
+    storage.setItem(BUFFER_SIZE_KEY, String(size));
+    entries = entries.slice(-size);
+    exchanges = exchanges.slice(-size);
+    if (persisting) enqueue(prunePersisted);
+    notify();
+  },
+
+  getLevel: (): LogLevel => minLevel,
+
+  // Entries below this level are never recorded (already captured ones stay)
+  setLevel: (level: LogLevel) => {
+    minLevel = level;
+    storage.setItem(LEVEL_KEY, level);
+    notify();
+  },
+
+  isPersistent: (): boolean => persisting,
+
+  canPersist: isIndexedDbAvailable,
+
+  // Opting in saves what is already in the buffer too; opting out deletes the saved copy
+  setPersistent: (enabled: boolean) => {
+    if (enabled === persisting || (enabled && !isIndexedDbAvailable())) return;
+    persisting = enabled;
+    storage.setItem(PERSIST_KEY, String(enabled));
+    if (enabled) {
+      persistEntries(entries.filter(e => !e.restored));
+    } else {
+      enqueue(async () => {
+        persistedKeys = [];
+        await persistedLog.clear();
+      });
+    }
+    notify();
+  },
+
+  clear: () => {
+    entries = [];
+    exchanges = [];
+    if (persisting) {
+      enqueue(async () => {
+        persistedKeys = [];
+        await persistedLog.clear();
+      });
+    }
+    notify();
+  },
+
+  subscribe: (listener: LogListener) => {
+    listeners.push(listener);
+    return () => {
+      const idx = listeners.indexOf(listener);
+      if (idx > -1) listeners.splice(idx, 1);
+    };
+  },
+};
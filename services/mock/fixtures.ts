@@ -0,0 +1,94 @@
+import { Film } from '../../types';
+
+// Seed data for the mock backend. Runtimes deliberately mix the numeric and
+// "NNN min" string forms the live API has been seen to return.
+
+const film = (
+  id: number,
+  imdb_id: string,
+  title: string,
+  year: number,
+  runtime: string | number,
+  certificate: string,
+  rating: number,
+  genres: string[],
+  directors: string[],
+  actors: string[],
+  description: string
+): Film => ({ id, imdb_id, title, year, runtime, certificate, rating, genres, directors, actors, description });
+
+export const FILMS: Film[] = [
+  film(1, 'tt0111161', 'The Shawshank Redemption', 1994, 142, 'R', 9.3, ['Drama'], ['Frank Darabont'], ['Tim Robbins', 'Morgan Freeman', 'Bob Gunton'],
+    'A banker convicted of uxoricide forms a friendship over a quarter century with a hardened convict, while maintaining his innocence and trying to remain hopeful through simple compassion.'),
+  film(2, 'tt0068646', 'The Godfather', 1972, '175 min', 'R', 9.2, ['Crime', 'Drama'], ['Francis Ford Coppola'], ['Marlon Brando', 'Al Pacino', 'James Caan'],
+    'The aging patriarch of an organized crime dynasty transfers control of his clandestine empire to his reluctant youngest son.'),
+  film(3, 'tt0468569', 'The Dark Knight', 2008, 152, 'PG-13', 9.0, ['Action', 'Crime', 'Drama'], ['Christopher Nolan'], ['Christian Bale', 'Heath Ledger', 'Aaron Eckhart'],
+    'When a menace known as the Joker wreaks havoc and chaos on the people of Gotham, Batman must accept one of the greatest psychological and physical tests of his ability to fight injustice.'),
+  film(4, 'tt0110912', 'Pulp Fiction', 1994, 154, 'R', 8.9, ['Crime', 'Drama'], ['Quentin Tarantino'], ['John Travolta', 'Uma Thurman', 'Samuel L. Jackson'],
+    'The lives of two mob hitmen, a boxer, a gangster and his wife, and a pair of diner bandits intertwine in four tales of violence and redemption.'),
+  film(5, 'tt1375666', 'Inception', 2010, '148 min', 'PG-13', 8.8, ['Action', 'Adventure', 'Sci-Fi'], ['Christopher Nolan'], ['Leonardo DiCaprio', 'Joseph Gordon-Levitt', 'Elliot Page'],
+    'A thief who steals corporate secrets through the use of dream-sharing technology is given the inverse task of planting an idea into the mind of a C.E.O.'),
+  film(6, 'tt0137523', 'Fight Club', 1999, 139, 'R', 8.8, ['Drama'], ['David Fincher'], ['Brad Pitt', 'Edward Norton', 'Meat Loaf'],
+    'An insomniac office worker and a devil-may-care soap maker form an underground fight club that evolves into much more.'),
+  film(7, 'tt0109830', 'Forrest Gump', 1994, 142, 'PG-13', 8.8, ['Drama', 'Romance'], ['Robert Zemeckis'], ['Tom Hanks', 'Robin Wright', 'Gary Sinise'],
+    'The history of the United States from the 1950s to the 70s unfolds from the perspective of an Alabama man with an IQ of 75, who yearns to be reunited with his childhood sweetheart.'),
+  film(8, 'tt0133093', 'The Matrix', 1999, 136, 'R', 8.7, ['Action', 'Sci-Fi'], ['Lana Wachowski', 'Lilly Wachowski'], ['Keanu Reeves', 'Laurence Fishburne', 'Carrie-Anne Moss'],
+    'When a beautiful stranger leads computer hacker Neo to a forbidding underworld, he discovers the shocking truth: the life he knows is the elaborate deception of an evil cyber-intelligence.'),
+  film(9, 'tt0816692', 'Interstellar', 2014, '169 min', 'PG-13', 8.7, ['Adventure', 'Drama', 'Sci-Fi'], ['Christopher Nolan'], ['Matthew McConaughey', 'Anne Hathaway', 'Jessica Chastain'],
+    "When Earth becomes uninhabitable in the future, a farmer and ex-NASA pilot is tasked to pilot a spacecraft, along with a team of researchers, to find a new planet for humans."),
+  film(10, 'tt0099685', 'Goodfellas', 1990, 145, 'R', 8.7, ['Biography', 'Crime', 'Drama'], ['Martin Scorsese'], ['Robert De Niro', 'Ray Liotta', 'Joe Pesci'],
+    'The story of Henry Hill and his life in the mafia, covering his relationship with his wife Karen and his mob partners Jimmy Conway and Tommy DeVito.'),
+  film(11, 'tt0114369', 'Se7en', 1995, 127, 'R', 8.6, ['Crime', 'Drama', 'Mystery'], ['David Fincher'], ['Morgan Freeman', 'Brad Pitt', 'Kevin Spacey'],
+    'Two detectives, a rookie and a veteran, hunt a serial killer who uses the seven deadly sins as his motives.'),
+  film(12, 'tt0245429', 'Spirited Away', 2001, 125, 'PG', 8.6, ['Animation', 'Adventure', 'Family'], ['Hayao Miyazaki'], ['Daveigh Chase', 'Suzanne Pleshette', 'Miyu Irino'],
+    "During her family's move to the suburbs, a sullen 10-year-old girl wanders into a world ruled by gods, witches and spirits, where humans are changed into beasts."),
+  film(13, 'tt6751668', 'Parasite', 2019, 132, 'R', 8.5, ['Drama', 'Thriller'], ['Bong Joon Ho'], ['Song Kang-ho', 'Lee Sun-kyun', 'Cho Yeo-jeong'],
+    'Greed and class discrimination threaten the newly formed symbiotic relationship between the wealthy Park family and the destitute Kim clan.'),
+  film(14, 'tt0102926', 'The Silence of the Lambs', 1991, 118, 'R', 8.6, ['Crime', 'Drama', 'Thriller'], ['Jonathan Demme'], ['Jodie Foster', 'Anthony Hopkins', 'Scott Glenn'],
+    'A young F.B.I. cadet must receive the help of an incarcerated and manipulative cannibal killer to help catch another serial killer.'),
+  film(15, 'tt0172495', 'Gladiator', 2000, 155, 'R', 8.5, ['Action', 'Adventure', 'Drama'], ['Ridley Scott'], ['Russell Crowe', 'Joaquin Phoenix', 'Connie Nielsen'],
+    'A former Roman General sets out to exact vengeance against the corrupt emperor who murdered his family and sent him into slavery.'),
+  film(16, 'tt0482571', 'The Prestige', 2006, 130, 'PG-13', 8.5, ['Drama', 'Mystery', 'Sci-Fi'], ['Christopher Nolan'], ['Christian Bale', 'Hugh Jackman', 'Scarlett Johansson'],
+    'After a tragic accident, two stage magicians in 1890s London engage in a battle to create the ultimate illusion while sacrificing everything they have to outwit each other.'),
+  film(17, 'tt2582802', 'Whiplash', 2014, 106, 'R', 8.5, ['Drama', 'Music'], ['Damien Chazelle'], ['Miles Teller', 'J.K. Simmons', 'Melissa Benoist'],
+    'A promising young drummer enrolls at a cut-throat music conservatory where his dreams of greatness are mentored by an instructor who will stop at nothing to realize a student\'s potential.'),
+  film(18, 'tt1856101', 'Blade Runner 2049', 2017, '164 min', 'R', 8.0, ['Action', 'Drama', 'Mystery', 'Sci-Fi'], ['Denis Villeneuve'], ['Ryan Gosling', 'Harrison Ford', 'Ana de Armas'],
+    "Young Blade Runner K's discovery of a long-buried secret leads him to track down former Blade Runner Rick Deckard, who's been missing for thirty years."),
+  film(19, 'tt2543164', 'Arrival', 2016, 116, 'PG-13', 7.9, ['Drama', 'Mystery', 'Sci-Fi'], ['Denis Villeneuve'], ['Amy Adams', 'Jeremy Renner', 'Forest Whitaker'],
+    'A linguist works with the military to communicate with alien lifeforms after twelve mysterious spacecraft appear around the world.'),
+  film(20, 'tt1160419', 'Dune', 2021, 155, 'PG-13', 8.0, ['Action', 'Adventure', 'Drama', 'Sci-Fi'], ['Denis Villeneuve'], ['Timothée Chalamet', 'Rebecca Ferguson', 'Zendaya'],
+    "A noble family becomes embroiled in a war for control over the galaxy's most valuable asset while its heir becomes troubled by visions of a dark future."),
+  film(21, 'tt3397884', 'Sicario', 2015, 121, 'R', 7.6, ['Action', 'Crime', 'Drama', 'Thriller'], ['Denis Villeneuve'], ['Emily Blunt', 'Josh Brolin', 'Benicio Del Toro'],
+    'An idealistic FBI agent is enlisted by a government task force to aid in the escalating war against drugs at the border area between the U.S. and Mexico.'),
+  film(22, 'tt1392214', 'Prisoners', 2013, 153, 'R', 8.1, ['Crime', 'Drama', 'Mystery', 'Thriller'], ['Denis Villeneuve'], ['Hugh Jackman', 'Jake Gyllenhaal', 'Viola Davis'],
+    "When Keller Dover's daughter and her friend go missing, he takes matters into his own hands as the police pursue multiple leads and the pressure mounts."),
+  film(23, 'tt1392190', 'Mad Max: Fury Road', 2015, 120, 'R', 8.1, ['Action', 'Adventure', 'Sci-Fi'], ['George Miller'], ['Tom Hardy', 'Charlize Theron', 'Nicholas Hoult'],
+    'In a post-apocalyptic wasteland, a woman rebels against a tyrannical ruler in search for her homeland with the aid of a group of female prisoners, a psychotic worshiper and a drifter named Max.'),
+  film(24, 'tt0114709', 'Toy Story', 1995, 81, 'G', 8.3, ['Animation', 'Adventure', 'Comedy', 'Family'], ['John Lasseter'], ['Tom Hanks', 'Tim Allen', 'Don Rickles'],
+    "A cowboy doll is profoundly threatened and jealous when a new spaceman action figure supplants him as top toy in a boy's bedroom."),
+  film(25, 'tt2278388', 'The Grand Budapest Hotel', 2014, 99, 'R', 8.1, ['Adventure', 'Comedy', 'Crime'], ['Wes Anderson'], ['Ralph Fiennes', 'F. Murray Abraham', 'Mathieu Amalric'],
+    'A writer encounters the owner of an aging high-class hotel, who tells him of his early years serving as a lobby boy in the hotel\'s glorious years under an exceptional concierge.'),
+  film(26, 'tt0211915', 'Amélie', 2001, '122 min', 'R', 8.3, ['Comedy', 'Romance'], ['Jean-Pierre Jeunet'], ['Audrey Tautou', 'Mathieu Kassovitz', 'Rufus'],
+    'Despite being caught in her imaginative world, young waitress Amélie decides to help people find happiness. Her quest to spread joy leads her on a journey where she finds true love.'),
+  film(27, 'tt0107290', 'Jurassic Park', 1993, 127, 'PG-13', 8.2, ['Action', 'Adventure', 'Sci-Fi'], ['Steven Spielberg'], ['Sam Neill', 'Laura Dern', 'Jeff Goldblum'],
+    "An industrialist invites some experts to visit his theme park of cloned dinosaurs. After a power failure, the creatures run loose, putting everyone's lives in danger."),
+  film(28, 'tt0088763', 'Back to the Future', 1985, 116, 'PG', 8.5, ['Adventure', 'Comedy', 'Sci-Fi'], ['Robert Zemeckis'], ['Michael J. Fox', 'Christopher Lloyd', 'Lea Thompson'],
+    'Marty McFly, a 17-year-old high school student, is accidentally sent 30 years into the past in a time-traveling DeLorean invented by his close friend, the maverick scientist Doc Brown.'),
+  film(29, 'tt0078748', 'Alien', 1979, 117, 'R', 8.5, ['Horror', 'Sci-Fi'], ['Ridley Scott'], ['Sigourney Weaver', 'Tom Skerritt', 'John Hurt'],
+    'The crew of a commercial spacecraft encounters a deadly lifeform after investigating an unknown transmission.'),
+  film(30, 'tt0209144', 'Memento', 2000, 113, 'R', 8.4, ['Mystery', 'Thriller'], ['Christopher Nolan'], ['Guy Pearce', 'Carrie-Anne Moss', 'Joe Pantoliano'],
+    'A man with short-term memory loss attempts to track down his wife\'s murderer.'),
+];
+
+// Matches the default credentials pre-filled on the Login page
+export const DEMO_USER = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  password: 'securepassword123',
+};
+
+export const DEMO_WATCHLIST = [
+  { film_id: 18, priority: 9, notes: 'Rewatch before the sequel', watched: false },
+  { film_id: 13, priority: 7, notes: '', watched: false },
+  { film_id: 5, priority: 5, notes: 'Loved it', watched: true, rating: 9 },
+];
@@ -0,0 +1,686 @@
+import { Film, User, WatchlistEntry, MetaData } from '../../types';
+import { createKeyValueStore } from '../../utils/idb';
+import { FILMS, DEMO_USER, DEMO_WATCHLIST } from './fixtures';
+
+// --- MOCK BACKEND ---
+// A fetch()-compatible stand-in for the film API. It mirrors the live server's
+// routes, envelopes ({ films, metadata }, { watchlist, metadata }, ...) and error
+// bodies ({ error: "message" } or { error: { field: "message" } }), so the rest of
+// the client cannot tell the difference. Works in the browser and in Node 18+.
+
+interface MockUser extends User {
+  password: string;
+}
+
+interface MockToken {
+  token: string;
+  user_id: number;
+  scope: 'authentication' | 'refresh' | 'activation' | 'password-reset';
+  expiry: number;
+}
+
+interface MockState {
+  users: MockUser[];
+  tokens: MockToken[];
+  films: Film[];
+  watchlist: Omit<WatchlistEntry, 'film'>[];
+  nextUserId: number;
+  nextEntryId: number;
+}
+
+// The live server emails tokens; the mock hands them to `onEmail` instead
+export interface MockEmail {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface MockServerOptions {
+  // Persist state to IndexedDB so it survives reloads (browser only)
+  persist?: boolean;
+  // Artificial delay before each response, to make loading states visible
+  latencyMs?: number;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+  // Receives outgoing mail (defaults to console.info)
+  onEmail?: (email: MockEmail) => void;
+}
+
+export type MockFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export interface MockServer {
+  fetch: MockFetch;
+  reset: () => Promise<void>;
+}
+
+const DB_NAME = 'cinegraph-mock';
+const STATE_KEY = 'state';
+
+const ERRORS = {
+  NOT_FOUND: 'the requested resource could not be found',
+  METHOD_NOT_ALLOWED: (method: string) => `the ${method} method is not supported for this resource`,
+  INVALID_CREDENTIALS: 'invalid authentication credentials',
+  INVALID_TOKEN: 'invalid or missing authentication token',
+  INACTIVE: 'your user account must be activated to access this resource',
+  BAD_JSON: 'body contains badly-formed JSON',
+};
+
+// --- Helpers ---
+
+const randomToken = () => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let out = '';
+  for (let i = 0; i < 26; i++) out += alphabet[Math.floor(Math.random() * alphabet.length)];
+  return out;
+};
+
+const publicUser = ({ password, ...user }: MockUser): User => user;
+
+const splitList = (value: string | null) =>
+  (value || '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+
+const runtimeMinutes = (runtime: string | number) =>
+  typeof runtime === 'number' ? runtime : parseInt(runtime) || 0;
+
+const calculateMetadata = (totalRecords: number, page: number, pageSize: number): MetaData | Record<string, never> => {
+  // The live server sends an empty metadata object when nothing matched
+  if (totalRecords === 0) return {};
+  return {
+    current_page: page,
+    page_size: pageSize,
+    first_page: 1,
+    last_page: Math.ceil(totalRecords / pageSize),
+    total_records: totalRecords,
+  };
+};
+
+class HttpError extends Error {
+  constructor(public status: number, public body: unknown) {
+    super(typeof body === 'string' ? body : 'validation failed');
+  }
+}
+
+const fail = (status: number, error: string | Record<string, string>): never => {
+  throw new HttpError(status, error);
+};
+
+const validationFail = (errors: Record<string, string>) => {
+  if (Object.keys(errors).length > 0) fail(422, errors);
+};
+
+const json = (status: number, body: unknown, url: string): Response => {
+  const response = new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  // Constructed responses have an empty url; the client logs it
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+};
+
+const readPaging = (params: URLSearchParams, sortSafelist: string[], defaultSort: string) => {
+  const page = parseInt(params.get('page') || '1');
+  const pageSize = parseInt(params.get('page_size') || '20');
+  const sort = params.get('sort') || defaultSort;
+
+  const errors: Record<string, string> = {};
+  if (isNaN(page) || page < 1) errors.page = 'must be greater than zero';
+  else if (page > 10_000_000) errors.page = 'must be a maximum of 10 million';
+  if (isNaN(pageSize) || pageSize < 1) errors.page_size = 'must be greater than zero';
+  else if (pageSize > 100) errors.page_size = 'must be a maximum of 100';
+  if (!sortSafelist.includes(sort)) errors.sort = 'invalid sort value';
+  validationFail(errors);
+
+  return { page, pageSize, sort };
+};
+
+// `sort` has been checked against withDescending(columns) by readPaging
+const sortBy = <T, C extends string>(
+  items: T[],
+  sort: string,
+  columns: readonly C[],
+  value: (item: T, column: C) => string | number,
+  tiebreak: (item: T) => number,
+) => {
+  const desc = sort.startsWith('-');
+  const column = columns.find(c => c === (desc ? sort.slice(1) : sort));
+  if (!column) return fail(422, { sort: 'invalid sort value' });
+  return [...items].sort((a, b) => {
+    const va = value(a, column);
+    const vb = value(b, column);
+    const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : (va as number) - (vb as number);
+    return (desc ? -cmp : cmp) || tiebreak(a) - tiebreak(b);
+  });
+};
+
+const FILM_SORTS = ['id', 'title', 'year', 'runtime', 'rating'] as const satisfies ReadonlyArray<keyof Film>;
+const WATCHLIST_SORTS = ['id', 'priority', 'added_at', 'watched_at', 'rating'] as const satisfies ReadonlyArray<keyof WatchlistEntry>;
+const withDescending = (columns: readonly string[]) => [...columns, ...columns.map(c => `-${c}`)];
+
+// --- State ---
+
+const seedState = (): MockState => {
+  const now = new Date().toISOString();
+  const user: MockUser = { id: 1, ...DEMO_USER, activated: true, created_at: now };
+  return {
+    users: [user],
+    tokens: [],
+    films: FILMS.map(f => ({ ...f })),
+    watchlist: DEMO_WATCHLIST.map((w, i) => ({
+      id: i + 1,
+      user_id: user.id,
+      film_id: w.film_id,
+      added_at: now,
+      notes: w.notes,
+      priority: w.priority,
+      watched: w.watched,
+      watched_at: w.watched ? now : null,
+      rating: w.rating ?? null,
+    })),
+    nextUserId: 2,
+    nextEntryId: DEMO_WATCHLIST.length + 1,
+  };
+};
+
+export const createMockServer = (options: MockServerOptions = {}): MockServer => {
+  const {
+    persist = false,
+    latencyMs = 0,
+    accessTokenTtlSeconds = 60 * 60,
+    refreshTokenTtlSeconds = 7 * 24 * 60 * 60,
+    onEmail = (email: MockEmail) => console.info(`[mock] email to ${email.to}: ${email.subject}\n${email.body}`),
+  } = options;
+
+  const db = persist ? createKeyValueStore<MockState>(DB_NAME) : null;
+  let state: MockState = seedState();
+
+  // Load persisted state once, before the first request is served
+  const ready: Promise<void> = db
+    ? db.get(STATE_KEY).then(saved => { if (saved) state = saved; }).catch(() => { /* fall back to the seed */ })
+    : Promise.resolve();
+
+  const save = () => {
+    db?.set(STATE_KEY, state).catch(() => { /* best effort */ });
+  };
+
+  const issueToken = (userId: number, scope: MockToken['scope'], ttlSeconds: number): MockToken => {
+    const token: MockToken = { token: randomToken(), user_id: userId, scope, expiry: Date.now() + ttlSeconds * 1000 };
+    state.tokens.push(token);
+    return token;
+  };
+
+  const consumeToken = (plaintext: unknown, scope: MockToken['scope']): MockUser | null => {
+    const token = state.tokens.find(t => t.token === plaintext && t.scope === scope && t.expiry > Date.now());
+    if (!token) return null;
+    return state.users.find(u => u.id === token.user_id) || null;
+  };
+
+  const deleteTokens = (userId: number, scope: MockToken['scope']) => {
+    state.tokens = state.tokens.filter(t => !(t.user_id === userId && t.scope === scope));
+  };
+
+  // Browsing films only needs a signed-in user; everything personal needs an activated one
+  const authenticate = (request: Request, requireActivated = true): MockUser => {
+    const header = request.headers.get('Authorization') || '';
+    const [scheme, plaintext] = header.split(' ');
+    const user = scheme === 'Bearer' ? consumeToken(plaintext, 'authentication') : null;
+    if (!user) return fail(401, ERRORS.INVALID_TOKEN);
+    if (requireActivated && !user.activated) return fail(403, ERRORS.INACTIVE);
+    return user;
+  };
+
+  const sendActivationEmail = (user: MockUser, token: MockToken) => onEmail({
+    to: user.email,
+    subject: 'Activate your account',
+    body: `Open #/activate?token=${token.token} or enter this token: ${token.token}\nIt expires in 3 days.`,
+  });
+
+  const readJson = async (request: Request): Promise<Record<string, unknown>> => {
+    const text = await request.text();
+    if (!text) return fail(400, 'body must not be empty');
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return fail(400, ERRORS.BAD_JSON);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return fail(400, ERRORS.BAD_JSON);
+    return body as Record<string, unknown>;
+  };
+
+  // Body fields, narrowed; absent is undefined, present with the wrong type is a 400 as on the real API
+  const wrongType = (key: string): never => fail(400, `body contains incorrect JSON type for "${key}"`);
+
+  const stringField = (input: Record<string, unknown>, key: string): string | undefined => {
+    const value = input[key];
+    if (value === undefined) return undefined;
+    return typeof value === 'string' ? value : wrongType(key);
+  };
+
+  const numberField = (input: Record<string, unknown>, key: string): number | undefined => {
+    const value = input[key];
+    if (value === undefined) return undefined;
+    return typeof value === 'number' ? value : wrongType(key);
+  };
+
+  const booleanField = (input: Record<string, unknown>, key: string): boolean | undefined => {
+    const value = input[key];
+    if (value === undefined) return undefined;
+    return typeof value === 'boolean' ? value : wrongType(key);
+  };
+
+  const withFilm = (entry: Omit<WatchlistEntry, 'film'>): WatchlistEntry => ({
+    ...entry,
+    film: state.films.find(f => f.id === entry.film_id)!,
+  });
+
+  const findEntry = (user: MockUser, id: string): Omit<WatchlistEntry, 'film'> => {
+    const entry = state.watchlist.find(w => w.id === parseInt(id) && w.user_id === user.id);
+    return entry || fail(404, ERRORS.NOT_FOUND);
+  };
+
+  // --- Handlers ---
+
+  type Handler = (request: Request, params: string[], query: URLSearchParams) => Promise<[number, unknown]>;
+
+  const registerUser: Handler = async (request) => {
+    const input = await readJson(request);
+    const name = stringField(input, 'name');
+    const email = stringField(input, 'email');
+    const password = stringField(input, 'password');
+    const errors: Record<string, string> = {};
+    if (!name) errors.name = 'must be provided';
+    if (!email) errors.email = 'must be provided';
+    else if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) errors.email = 'must be a valid email address';
+    if (!password) errors.password = 'must be provided';
+    else if (password.length < 8) errors.password = 'must be at least 8 bytes long';
+    if (email && state.users.some(u => u.email === email)) errors.email = 'a user with this email address already exists';
+    validationFail(errors);
+    // Can't happen after validationFail, but tells the compiler
+    if (!name || !email || !password) return fail(422, errors);
+
+    const user: MockUser = { id: state.nextUserId++, name, email, password, activated: false, created_at: new Date().toISOString() };
+    state.users.push(user);
+    const activation = issueToken(user.id, 'activation', 3 * 24 * 60 * 60);
+    sendActivationEmail(user, activation);
+    return [202, {
+      user: publicUser(user),
+      activation_token: { token: activation.token, expiry: new Date(activation.expiry).toISOString() },
+    }];
+  };
+
+  const activateUser: Handler = async (request) => {
+    const token = stringField(await readJson(request), 'token');
+    if (!token) validationFail({ token: 'must be provided' });
+    const user = consumeToken(token, 'activation');
+    if (!user) return fail(422, { token: 'invalid or expired activation token' });
+    user.activated = true;
+    deleteTokens(user.id, 'activation');
+    return [200, { user: publicUser(user) }];
+  };
+
+  const resendActivation: Handler = async (request) => {
+    const email = stringField(await readJson(request), 'email');
+    if (!email) validationFail({ email: 'must be provided' });
+    const user = state.users.find(u => u.email === email);
+    if (!user) return fail(422, { email: 'no matching email address found' });
+    if (user.activated) return fail(422, { email: 'user has already been activated' });
+
+    deleteTokens(user.id, 'activation');
+    sendActivationEmail(user, issueToken(user.id, 'activation', 3 * 24 * 60 * 60));
+    return [202, { message: 'an email will be sent to you containing activation instructions' }];
+  };
+
+  const requestPasswordReset: Handler = async (request) => {
+    const email = stringField(await readJson(request), 'email');
+    if (!email) validationFail({ email: 'must be provided' });
+    const user = state.users.find(u => u.email === email);
+    if (!user) return fail(422, { email: 'no matching email address found' });
+    if (!user.activated) return fail(422, { email: 'user account must be activated' });
+
+    const reset = issueToken(user.id, 'password-reset', 45 * 60);
+    onEmail({
+      to: user.email,
+      subject: 'Reset your password',
+      body: `Open #/reset-password?token=${reset.token} or enter this token: ${reset.token}\nIt expires in 45 minutes.`,
+    });
+    return [202, { message: 'an email will be sent to you containing password reset instructions' }];
+  };
+
+  const resetPassword: Handler = async (request) => {
+    const input = await readJson(request);
+    const password = stringField(input, 'password');
+    const token = stringField(input, 'token');
+    const errors: Record<string, string> = {};
+    if (!password) errors.password = 'must be provided';
+    else if (password.length < 8) errors.password = 'must be at least 8 bytes long';
+    if (!token) errors.token = 'must be provided';
+    validationFail(errors);
+
+    if (!password) return fail(422, errors);
+
+    const user = consumeToken(token, 'password-reset');
+    if (!user) return fail(422, { token: 'invalid or expired password reset token' });
+    user.password = password;
+    deleteTokens(user.id, 'password-reset');
+    return [200, { message: 'your password was successfully reset' }];
+  };
+
+  // --- Account (/users/me) ---
+
+  const updateCurrentUser: Handler = async (request) => {
+    const user = authenticate(request, false);
+    const input = await readJson(request);
+    const name = stringField(input, 'name');
+    const email = stringField(input, 'email');
+    const errors: Record<string, string> = {};
+    if (name !== undefined && !name.trim()) errors.name = 'must be provided';
+    if (email !== undefined) {
+      if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) errors.email = 'must be a valid email address';
+      else if (state.users.some(u => u.email === email && u.id !== user.id)) errors.email = 'a user with this email address already exists';
+    }
+    validationFail(errors);
+
+    if (name !== undefined) user.name = name.trim();
+    // A new address has to be confirmed before the account is active again
+    if (email !== undefined && email !== user.email) {
+      user.email = email;
+      user.activated = false;
+      deleteTokens(user.id, 'activation');
+      sendActivationEmail(user, issueToken(user.id, 'activation', 3 * 24 * 60 * 60));
+    }
+    return [200, { user: publicUser(user) }];
+  };
+
+  const changePassword: Handler = async (request) => {
+    const user = authenticate(request, false);
+    const input = await readJson(request);
+    const current_password = stringField(input, 'current_password');
+    const new_password = stringField(input, 'new_password');
+    const errors: Record<string, string> = {};
+    if (!current_password) errors.current_password = 'must be provided';
+    else if (current_password !== user.password) errors.current_password = 'is incorrect';
+    if (!new_password) errors.new_password = 'must be provided';
+    else if (new_password.length < 8) errors.new_password = 'must be at least 8 bytes long';
+    validationFail(errors);
+    if (!new_password) return fail(422, errors);
+
+    user.password = new_password;
+    return [200, { message: 'your password was successfully changed' }];
+  };
+
+  const deleteCurrentUser: Handler = async (request) => {
+    const user = authenticate(request, false);
+    state.users = state.users.filter(u => u !== user);
+    state.tokens = state.tokens.filter(t => t.user_id !== user.id);
+    state.watchlist = state.watchlist.filter(w => w.user_id !== user.id);
+    return [200, { message: 'your account was successfully deleted' }];
+  };
+
+  const issueTokenPair = (user: MockUser) => {
+    const access = issueToken(user.id, 'authentication', accessTokenTtlSeconds);
+    const refresh = issueToken(user.id, 'refresh', refreshTokenTtlSeconds);
+    return {
+      access_token: access.token,
+      refresh_token: refresh.token,
+      token_type: 'Bearer',
+      expires_in: accessTokenTtlSeconds,
+      user: publicUser(user),
+    };
+  };
+
+  const createAuthToken: Handler = async (request) => {
+    const input = await readJson(request);
+    const email = stringField(input, 'email');
+    const password = stringField(input, 'password');
+    const errors: Record<string, string> = {};
+    if (!email) errors.email = 'must be provided';
+    if (!password) errors.password = 'must be provided';
+    validationFail(errors);
+
+    const user = state.users.find(u => u.email === email);
+    if (!user || user.password !== password) return fail(401, ERRORS.INVALID_CREDENTIALS);
+    return [201, issueTokenPair(user)];
+  };
+
+  const refreshAuthToken: Handler = async (request) => {
+    const refresh_token = stringField(await readJson(request), 'refresh_token');
+    const user = consumeToken(refresh_token, 'refresh');
+    if (!user) return fail(401, ERRORS.INVALID_TOKEN);
+    // Refresh tokens are single use: rotate on every refresh
+    state.tokens = state.tokens.filter(t => t.token !== refresh_token);
+    return [201, issueTokenPair(user)];
+  };
+
+  const listFilms: Handler = async (request, _params, query) => {
+    authenticate(request, false);
+    const { page, pageSize, sort } = readPaging(query, withDescending(FILM_SORTS), 'id');
+
+    const title = (query.get('title') || '').trim().toLowerCase();
+    const genres = splitList(query.get('genres'));
+    const actors = splitList(query.get('actors'));
+    const directors = splitList(query.get('directors'));
+
+    // Every requested value must match one of the film's values (substring, case-insensitive)
+    const matchesAll = (wanted: string[], values: string[]) =>
+      wanted.every(w => values.some(v => v.toLowerCase().includes(w)));
+
+    const matching = state.films.filter(f =>
+      (!title || f.title.toLowerCase().includes(title)) &&
+      matchesAll(genres, f.genres) &&
+      matchesAll(actors, f.actors) &&
+      matchesAll(directors, f.directors)
+    );
+
+    const sorted = sortBy(matching, sort, FILM_SORTS, (f, column) => {
+      if (column === 'runtime') return runtimeMinutes(f.runtime);
+      return f[column];
+    }, f => f.id);
+
+    return [200, {
+      films: sorted.slice((page - 1) * pageSize, page * pageSize),
+      metadata: calculateMetadata(sorted.length, page, pageSize),
+    }];
+  };
+
+  const showFilm: Handler = async (request, [id]) => {
+    authenticate(request, false);
+    const film = state.films.find(f => f.id === parseInt(id));
+    if (!film) return fail(404, ERRORS.NOT_FOUND);
+    return [200, { film }];
+  };
+
+  const listWatchlist: Handler = async (request, _params, query) => {
+    const user = authenticate(request);
+    const { page, pageSize, sort } = readPaging(query, withDescending(WATCHLIST_SORTS), '-priority');
+    const watched = query.get('watched');
+
+    const matching = state.watchlist.filter(w =>
+      w.user_id === user.id && (watched === null || String(w.watched) === watched)
+    );
+    const sorted = sortBy(matching, sort, WATCHLIST_SORTS, (w, column) => {
+      if (column === 'added_at' || column === 'watched_at') {
+        const value = w[column];
+        return value ? Date.parse(value) : 0;
+      }
+      return w[column] ?? 0;
+    }, w => w.id);
+
+    return [200, {
+      watchlist: sorted.slice((page - 1) * pageSize, page * pageSize).map(withFilm),
+      metadata: calculateMetadata(sorted.length, page, pageSize),
+    }];
+  };
+
+  // The editable fields of a watchlist entry, narrowed and checked
+  const validateEntryFields = (input: Record<string, unknown>) => {
+    const priority = numberField(input, 'priority');
+    const notes = stringField(input, 'notes');
+    const rating = input.rating === null ? null : numberField(input, 'rating');
+    const watched = booleanField(input, 'watched');
+
+    const errors: Record<string, string> = {};
+    if (priority !== undefined && (!Number.isInteger(priority) || priority < 1 || priority > 10)) {
+      errors.priority = 'must be between 1 and 10';
+    }
+    if (notes !== undefined && notes.length > 500) errors.notes = 'must not be more than 500 bytes long';
+    if (rating !== undefined && rating !== null && (rating < 1 || rating > 10)) {
+      errors.rating = 'must be between 1 and 10';
+    }
+    validationFail(errors);
+    return { priority, notes, rating, watched };
+  };
+
+  const addWatchlistEntry: Handler = async (request) => {
+    const user = authenticate(request);
+    const input = await readJson(request);
+    const filmId = numberField(input, 'film_id');
+    if (!filmId) return fail(422, { film_id: 'must be provided' });
+    const { notes, priority } = validateEntryFields(input);
+    if (!state.films.some(f => f.id === filmId)) return fail(404, ERRORS.NOT_FOUND);
+    if (state.watchlist.some(w => w.user_id === user.id && w.film_id === filmId)) {
+      return fail(409, 'this film is already in your watchlist');
+    }
+
+    const entry = {
+      id: state.nextEntryId++,
+      user_id: user.id,
+      film_id: filmId,
+      added_at: new Date().toISOString(),
+      notes: notes || '',
+      priority: priority ?? 5,
+      watched: false,
+      watched_at: null,
+      rating: null,
+    };
+    state.watchlist.push(entry);
+    return [201, { watchlist: withFilm(entry) }];
+  };
+
+  const updateWatchlistEntry: Handler = async (request, [id]) => {
+    const user = authenticate(request);
+    const entry = findEntry(user, id);
+    const { priority, notes, rating, watched } = validateEntryFields(await readJson(request));
+
+    if (priority !== undefined) entry.priority = priority;
+    if (notes !== undefined) entry.notes = notes;
+    if (rating !== undefined) entry.rating = rating;
+    if (watched !== undefined && watched !== entry.watched) {
+      entry.watched = watched;
+      entry.watched_at = entry.watched ? new Date().toISOString() : null;
+    }
+    return [200, { watchlist: withFilm(entry) }];
+  };
+
+  const deleteWatchlistEntry: Handler = async (request, [id]) => {
+    const user = authenticate(request);
+    const entry = findEntry(user, id);
+    state.watchlist = state.watchlist.filter(w => w !== entry);
+    return [200, { message: 'watchlist entry successfully deleted' }];
+  };
+
+  const listRecommendations: Handler = async (request, _params, query) => {
+    const user = authenticate(request);
+    const limit = Math.min(Math.max(parseInt(query.get('limit') || '10') || 10, 1), 50);
+
+    // Score unseen films by the genres and directors they share with the user's
+    // watchlist, weighting films the user rated highly.
+    const entries = state.watchlist.filter(w => w.user_id === user.id);
+    const listed = new Set(entries.map(w => w.film_id));
+    const weights = new Map<string, number>();
+    entries.forEach(w => {
+      const film = state.films.find(f => f.id === w.film_id);
+      if (!film) return;
+      const weight = w.rating ? w.rating / 5 : 1;
+      film.genres.forEach(g => weights.set(`g:${g}`, (weights.get(`g:${g}`) || 0) + weight));
+      film.directors.forEach(d => weights.set(`d:${d}`, (weights.get(`d:${d}`) || 0) + weight * 2));
+    });
+
+    const recommendations = state.films
+      .filter(f => !listed.has(f.id))
+      .map(f => ({
+        film: f,
+        score: f.genres.reduce((s, g) => s + (weights.get(`g:${g}`) || 0), 0)
+          + f.directors.reduce((s, d) => s + (weights.get(`d:${d}`) || 0), 0),
+      }))
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score || b.film.rating - a.film.rating)
+      .slice(0, limit)
+      .map(r => r.film);
+
+    return [200, { recommendations }];
+  };
+
+  // --- Routing ---
+
+  const routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [
+    { method: 'POST', pattern: /^\/users$/, handler: registerUser },
+    { method: 'PUT', pattern: /^\/users\/activate$/, handler: activateUser },
+    { method: 'POST', pattern: /^\/tokens\/authentication$/, handler: createAuthToken },
+    { method: 'POST', pattern: /^\/tokens\/refresh$/, handler: refreshAuthToken },
+    { method: 'POST', pattern: /^\/tokens\/activation$/, handler: resendActivation },
+    { method: 'POST', pattern: /^\/tokens\/password-reset$/, handler: requestPasswordReset },
+    { method: 'PUT', pattern: /^\/users\/password$/, handler: resetPassword },
+    { method: 'PATCH', pattern: /^\/users\/me$/, handler: updateCurrentUser },
+    { method: 'PUT', pattern: /^\/users\/me\/password$/, handler: changePassword },
+    { method: 'DELETE', pattern: /^\/users\/me$/, handler: deleteCurrentUser },
+    { method: 'GET', pattern: /^\/films$/, handler: listFilms },
+    { method: 'GET', pattern: /^\/films\/(\d+)$/, handler: showFilm },
+    { method: 'GET', pattern: /^\/watchlist$/, handler: listWatchlist },
+    { method: 'POST', pattern: /^\/watchlist$/, handler: addWatchlistEntry },
+    { method: 'PATCH', pattern: /^\/watchlist\/(\d+)$/, handler: updateWatchlistEntry },
+    { method: 'DELETE', pattern: /^\/watchlist\/(\d+)$/, handler: deleteWatchlistEntry },
+    { method: 'GET', pattern: /^\/recommendations$/, handler: listRecommendations },
+  ];
+
+  const dispatch = async (request: Request): Promise<[number, unknown]> => {
+    const url = new URL(request.url);
+    // Strip the version prefix (/v1) so the routes work whatever the environment uses
+    const path = url.pathname.replace(/^\/v\d+/, '').replace(/\/+$/, '') || '/';
+
+    const candidates = routes.filter(r => r.pattern.test(path));
+    if (candidates.length === 0) return fail(404, ERRORS.NOT_FOUND);
+    const route = candidates.find(r => r.method === request.method);
+    if (!route) return fail(405, ERRORS.METHOD_NOT_ALLOWED(request.method));
+
+    const params = path.match(route.pattern)!.slice(1);
+    const result = await route.handler(request, params, url.searchParams);
+    if (request.method !== 'GET') save();
+    return result;
+  };
+
+  const delay = (signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+    if (latencyMs <= 0) return resolve();
+    const timer = setTimeout(resolve, latencyMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+
+  const mockFetch: MockFetch = async (input, init) => {
+    const request = new Request(input, init);
+    const signal = init?.signal;
+    if (signal?.aborted) throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+    await ready;
+    await delay(signal);
+
+    try {
+      const [status, body] = await dispatch(request);
+      return json(status, body, request.url);
+    } catch (e) {
+      if (e instanceof HttpError) return json(e.status, { error: e.body }, request.url);
+      console.error('[mock] handler crashed', e);
+      return json(500, { error: 'the server encountered a problem and could not process your request' }, request.url);
+    }
+  };
+
+  return {
+    fetch: mockFetch,
+    reset: async () => {
+      state = seedState();
+      await db?.clear();
+    },
+  };
+};
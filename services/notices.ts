@@ -0,0 +1,50 @@
+// --- NOTICES ---
+// Short user-facing messages (toasts) for things that happen outside the current
+// click, such as a background save that failed and was undone.
+
+export type NoticeTone = 'info' | 'success' | 'error';
+
+export interface Notice {
+  id: number;
+  tone: NoticeTone;
+  message: string;
+}
+
+// How long a notice stays up unless dismissed earlier
+const DEFAULT_DURATION_MS = 6000;
+
+type NoticeListener = (notices: Notice[]) => void;
+const listeners: NoticeListener[] = [];
+
+let current: Notice[] = [];
+let nextId = 1;
+
+const notify = () => {
+  listeners.forEach(l => l(current));
+};
+
+export const notices = {
+  getAll: (): Notice[] => current,
+
+  push: (tone: NoticeTone, message: string, durationMs = DEFAULT_DURATION_MS): number => {
+    const id = nextId++;
+    current = [...current, { id, tone, message }];
+    notify();
+    if (durationMs > 0) setTimeout(() => notices.dismiss(id), durationMs);
+    return id;
+  },
+
+  dismiss: (id: number) => {
+    if (!current.some(n => n.id === id)) return;
+    current = current.filter(n => n.id !== id);
+    notify();
+  },
+
+  subscribe: (listener: NoticeListener) => {
+    listeners.push(listener);
+    return () => {
+      const idx = listeners.indexOf(listener);
+      if (idx > -1) listeners.splice(idx, 1);
+    };
+  },
+};
@@ -0,0 +1,134 @@
+import { Film, MetaData, WatchlistEntry } from '../types';
+import { api, FilmFilters } from './api';
+
+// --- PAGINATION ---
+// Async iterators that walk paged endpoints by following MetaData instead of guessing
+// from page lengths. Breaking out of a for-await loop (or aborting the signal) cancels
+// whatever page requests are still in flight.
+
+// The server rejects page_size above this
+export const MAX_PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  metadata: MetaData;
+}
+
+export type PageFetcher<T> = (page: number, signal: AbortSignal) => Promise<Page<T>>;
+
+export interface PaginateOptions {
+  // How many pages may be requested at once after the first one (default 1)
+  concurrency?: number;
+  startPage?: number;
+  signal?: AbortSignal;
+}
+
+// Empty results come back with zeroed metadata, so current_page 0 also means "no more"
+export const hasMorePages = (metadata: MetaData): boolean =>
+  metadata.current_page > 0 && metadata.current_page < metadata.last_page;
+
+// Yields whole pages in order. The first page is fetched alone to learn last_page,
+// the rest up to `concurrency` at a time.
+export async function* paginatePages<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<Page<T>> {
+  const { concurrency = 1, startPage = 1, signal } = options;
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+
+  try {
+    const first = await fetchPage(startPage, controller.signal);
+    yield first;
+    if (!hasMorePages(first.metadata)) return;
+
+    const lastPage = first.metadata.last_page;
+    const pending: Array<Promise<Page<T>>> = [];
+    let nextPage = startPage + 1;
+    const fill = () => {
+      while (pending.length < Math.max(1, concurrency) && nextPage <= lastPage) {
+        const request = fetchPage(nextPage++, controller.signal);
+        // Rejections are observed when the page is awaited below
+        request.catch(() => {});
+        pending.push(request);
+      }
+    };
+
+    fill();
+    while (pending.length > 0) {
+      const page = await pending.shift()!;
+      fill();
+      yield page;
+      // The collection may have shrunk while we were paging
+      if (page.items.length === 0) return;
+    }
+  } finally {
+    // Runs on completion, error and early exit alike
+    controller.abort();
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<T> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page.items;
+  }
+}
+
+// Drains an iterator into an array, stopping early once `limit` items are collected
+export const collect = async <T>(items: AsyncIterable<T>, limit = Infinity): Promise<T[]> => {
+  const out: T[] = [];
+  if (limit <= 0) return out;
+  for await (const item of items) {
+    out.push(item);
+    if (out.length >= limit) break;
+  }
+  return out;
+};
+
+// --- Films ---
+
+export interface FilmIterationOptions extends PaginateOptions {
+  sort?: string;
+  filters?: FilmFilters;
+  pageSize?: number;
+}
+
+export const iterateFilms = (token: string, options: FilmIterationOptions = {}): AsyncGenerator<Film> => {
+  const { sort = '-rating', filters = {}, pageSize = MAX_PAGE_SIZE, ...paging } = options;
+  return paginate(async (page, signal) => {
+    const res = await api.getFilms(token, page, pageSize, sort, filters, { signal });
+    return { items: res.films, metadata: res.metadata };
+  }, paging);
+};
+
+// --- Watchlist ---
+
+export interface WatchlistIterationOptions extends PaginateOptions {
+  // true/false for one half of the watchlist, 'all' (the default) for both
+  watched?: boolean | 'all';
+  pageSize?: number;
+}
+
+export async function* iterateWatchlist(token: string, options: WatchlistIterationOptions = {}): AsyncGenerator<WatchlistEntry> {
+  const { watched = 'all', pageSize = MAX_PAGE_SIZE, ...paging } = options;
+  const halves = watched === 'all' ? [false, true] : [watched];
+  for (const half of halves) {
+    yield* paginate(async (page, signal) => {
+      const res = await api.getWatchlist(token, half, page, pageSize, { signal });
+      return { items: res.watchlist, metadata: res.metadata };
+    }, paging);
+  }
+}
+
+// Finds a film's watchlist entry however long the watchlist is, stopping at the first match
+export const findWatchlistEntry = async (
+  token: string,
+  filmId: number,
+  options: Omit<WatchlistIterationOptions, 'watched'> = {}
+): Promise<WatchlistEntry | null> => {
+  for await (const entry of iterateWatchlist(token, options)) {
+    if (entry.film_id === filmId) return entry;
+  }
+  return null;
+};
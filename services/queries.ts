@@ -0,0 +1,193 @@
+import { Film, FilmListResponse, MetaData, WatchlistEntry } from '../types';
+import { api, FilmFilters, RequestOptions } from './api';
+import { FilmRangeFilter } from './config';
+import { clientSideRanges, matchesRanges, serverFilters } from './filmFilters';
+import { collect, hasMorePages, iterateWatchlist, MAX_PAGE_SIZE } from './pagination';
+import { store, selectFilm, selectFilmQuery, isWatchlistStale } from './store';
+import { session } from './session';
+
+// --- CACHED QUERIES ---
+// Stale-while-revalidate reads on top of the entity store: cached data is handed to
+// onData straight away, and a fresh copy follows unless the cache is recent enough.
+
+// Cached data younger than this is served without hitting the network
+export const FRESH_FOR_MS = 60 * 1000;
+
+const isFresh = (fetchedAt: number | null | undefined) =>
+  !!fetchedAt && Date.now() - fetchedAt < FRESH_FOR_MS;
+
+export interface QueryOptions<T> extends RequestOptions {
+  // Called with cached data first (stale: true) and again with the server's answer
+  onData?: (data: T, stale: boolean) => void;
+  // Skip the cache and always go to the network
+  force?: boolean;
+}
+
+export const filmQueryKey = (page: number, pageSize: number, sort: string, filters: FilmFilters) =>
+  JSON.stringify([
+    page, pageSize, sort,
+    filters.title || '', filters.genres || '', filters.actors || '', filters.directors || '',
+    filters.yearMin ?? null, filters.yearMax ?? null,
+    filters.ratingMin ?? null, filters.ratingMax ?? null,
+    filters.runtimeMin ?? null, filters.runtimeMax ?? null,
+    filters.certificates || '',
+  ]);
+
+// --- Client-side range filtering ---
+// Ranges the server doesn't filter on are applied to its pages as they're read in order,
+// collecting the matches, so page N is the Nth run of `pageSize` matching films exactly as
+// if the server had filtered. A scan is kept per query and resumed: page 3 after page 2
+// only reads the server pages page 2 didn't already cover.
+//
+// One load reads at most MAX_SCAN_PAGES server pages. A selective filter can match little
+// or nothing, so rather than walking the whole catalogue first, the page comes back short
+// with more to come, and asking for it again carries on from where the scan stopped.
+
+interface RangeScan {
+  ids: number[]; // matching films, in the server's order
+  pagesRead: number;
+  exhausted: boolean;
+  startedAt: number;
+}
+
+const scans = new Map<string, RangeScan>();
+
+const MAX_SCAN_PAGES = 5;
+
+// What an empty listing's metadata looks like coming from the server
+const EMPTY_METADATA: MetaData = { current_page: 0, page_size: 0, first_page: 0, last_page: 0, total_records: 0 };
+
+const loadRangeFilteredFilms = async (
+  token: string,
+  page: number,
+  pageSize: number,
+  sort: string,
+  filters: FilmFilters,
+  ranges: FilmRangeFilter[],
+  options: QueryOptions<FilmListResponse>
+): Promise<FilmListResponse> => {
+  const { onData, force, ...request } = options;
+  const key = filmQueryKey(0, 0, sort, filters);
+
+  let scan = scans.get(key);
+  if (!scan || force || !isFresh(scan.startedAt)) {
+    scan = { ids: [], pagesRead: 0, exhausted: false, startedAt: Date.now() };
+    scans.set(key, scan);
+  }
+
+  const server = serverFilters(filters, ranges);
+  for (let read = 0; read < MAX_SCAN_PAGES && scan.ids.length < page * pageSize && !scan.exhausted;) {
+    const next = scan.pagesRead + 1;
+    // The largest pages the API allows, as most of what they hold may be filtered out
+    const res = await api.getFilms(token, next, MAX_PAGE_SIZE, sort, server, request);
+    // Another load of the same query read this page meanwhile
+    if (scan.pagesRead !== next - 1) continue;
+    store.upsertFilms(res.films);
+    scan.ids.push(...res.films.filter(f => matchesRanges(f, filters, ranges)).map(f => f.id));
+    scan.pagesRead = next;
+    scan.exhausted = !hasMorePages(res.metadata);
+    read++;
+  }
+
+  const films = scan.ids
+    .slice((page - 1) * pageSize, page * pageSize)
+    .map(id => store.getState().films[id])
+    .filter(Boolean);
+  const total = scan.ids.length;
+  const result: FilmListResponse = {
+    films,
+    metadata: films.length === 0 && scan.exhausted ? EMPTY_METADATA : {
+      current_page: page,
+      page_size: pageSize,
+      first_page: 1,
+      // Until the scan reaches the end, all that's known is that there's more (maybe only
+      // the rest of this page), and total_records only counts the matches found so far
+      last_page: scan.exhausted ? Math.ceil(total / pageSize) : page + 1,
+      total_records: total,
+    },
+  };
+  onData?.(result, false);
+  return result;
+};
+
+export const loadFilms = async (
+  token: string,
+  page: number,
+  pageSize: number,
+  sort: string,
+  filters: FilmFilters,
+  options: QueryOptions<FilmListResponse> = {}
+): Promise<FilmListResponse> => {
+  const ranges = clientSideRanges(filters);
+  if (ranges.length > 0) return loadRangeFilteredFilms(token, page, pageSize, sort, filters, ranges, options);
+
+  const { onData, force, ...request } = options;
+  const key = filmQueryKey(page, pageSize, sort, filters);
+
+  const cached = selectFilmQuery(key)(store.getState());
+  if (cached && !force) {
+    onData?.(cached, true);
+    if (isFresh(cached.fetchedAt)) return cached;
+  }
+
+  const res = await api.getFilms(token, page, pageSize, sort, filters, request);
+  store.setFilmQuery(key, res.films, res.metadata);
+  onData?.(res, false);
+  return res;
+};
+
+export const loadFilm = async (token: string, id: number, options: QueryOptions<Film> = {}): Promise<Film> => {
+  const { onData, force, ...request } = options;
+
+  const cached = selectFilm(id)(store.getState());
+  if (cached && !force) {
+    onData?.(cached, true);
+    if (isFresh(store.getState().filmFetchedAt[id])) return cached;
+  }
+
+  const { film } = await api.getFilm(token, id, request);
+  store.upsertFilms([film]);
+  onData?.(film, false);
+  return film;
+};
+
+// One full watchlist load at a time; every caller waits on the same one
+let watchlistLoad: Promise<WatchlistEntry[]> | null = null;
+// Bumped when the session changes, so a load started for the previous user is discarded
+let sessionEpoch = 0;
+
+session.subscribe((event) => {
+  if (event.type !== 'started' && event.type !== 'ended') return;
+  sessionEpoch++;
+  watchlistLoad = null;
+  scans.clear();
+});
+
+// Makes sure the store holds the complete watchlist (watched and unwatched). Fresh,
+// non-invalidated data is left alone unless forced. Callers cannot cancel the shared
+// load; its result lands in the store either way.
+export const loadWatchlist = (token: string, options: { force?: boolean } = {}): Promise<WatchlistEntry[]> => {
+  const status = store.getState().watchlistStatus;
+  if (!options.force && !isWatchlistStale(status) && isFresh(status.loadedAt)) {
+    return Promise.resolve(Object.values(store.getState().watchlist));
+  }
+
+  if (!watchlistLoad) {
+    const load: Promise<WatchlistEntry[]> = fetchWatchlist(token)
+      .finally(() => { if (watchlistLoad === load) watchlistLoad = null; });
+    watchlistLoad = load;
+  }
+  return watchlistLoad;
+};
+
+const fetchWatchlist = async (token: string): Promise<WatchlistEntry[]> => {
+  const version = store.getState().watchlistStatus.version;
+  const epoch = sessionEpoch;
+  const entries = await collect(iterateWatchlist(token, { concurrency: 3 }));
+  if (epoch !== sessionEpoch) return entries;
+  store.setWatchlist(entries, version);
+  // Invalidated while loading: the listing may predate that change, and callers waiting
+  // on this load won't ask again, so go round once more
+  if (store.getState().watchlistStatus.version !== version) return fetchWatchlist(token);
+  return entries;
+};
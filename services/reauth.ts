@@ -0,0 +1,107 @@
+import { session } from './session';
+import { AuthError } from './errors';
+
+// --- RE-AUTHENTICATION ---
+// A session that can't renew itself (no refresh token, or the refresh was rejected) is
+// not ended on the spot. The user is warned shortly before it lapses and asked for their
+// password in place, so whatever they were doing stays on screen. Requests that run into
+// the expired session wait here and go out again with the new token once they sign in.
+
+export type ReauthStatus = 'idle' | 'warning' | 'required';
+
+export interface ReauthState {
+  status: ReauthStatus;
+  expiresAt: number | null; // epoch ms of the access token being replaced
+}
+
+// How long before the access token lapses the warning goes up
+export const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+
+type ReauthListener = (state: ReauthState) => void;
+const listeners: ReauthListener[] = [];
+
+interface Waiter {
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+}
+
+let state: ReauthState = { status: 'idle', expiresAt: null };
+let waiters: Waiter[] = [];
+let warningTimer: ReturnType<typeof setTimeout> | null = null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const setState = (next: ReauthState) => {
+  state = next;
+  listeners.forEach(l => l(state));
+};
+
+const settle = (outcome: { token: string } | { error: Error }) => {
+  const pending = waiters;
+  waiters = [];
+  pending.forEach(w => ('token' in outcome ? w.resolve(outcome.token) : w.reject(outcome.error)));
+};
+
+const clearTimers = () => {
+  if (warningTimer) clearTimeout(warningTimer);
+  if (expiryTimer) clearTimeout(expiryTimer);
+  warningTimer = expiryTimer = null;
+};
+
+// With a refresh token the session renews itself and the prompt only comes up if that
+// fails; without one, warn ahead of the known expiry and ask again once it has passed
+const schedule = () => {
+  clearTimers();
+  const current = session.get();
+  if (!current?.expiresAt || current.refreshToken || listeners.length === 0) return;
+
+  const { expiresAt } = current;
+  warningTimer = setTimeout(() => {
+    if (state.status === 'idle') setState({ status: 'warning', expiresAt });
+  }, Math.max(0, expiresAt - EXPIRY_WARNING_MS - Date.now()));
+  expiryTimer = setTimeout(() => {
+    setState({ status: 'required', expiresAt });
+  }, Math.max(0, expiresAt - Date.now()));
+};
+
+session.subscribe((event) => {
+  if (event.type === 'refreshed') {
+    // Signed in again, here or in another tab: replay whatever was waiting
+    settle({ token: event.session.accessToken });
+  } else if (event.type === 'started' || event.type === 'ended') {
+    // A different user (or nobody) now; the interrupted actions belonged to someone else
+    settle({ error: new AuthError(401, 'Session expired') });
+  }
+  if (event.type !== 'updated' && state.status !== 'idle') setState({ status: 'idle', expiresAt: null });
+  schedule();
+});
+
+export const reauth = {
+  getState: (): ReauthState => state,
+
+  // Whether a prompt is mounted to ask the user; without one an expired session simply ends
+  isAvailable: (): boolean => listeners.length > 0,
+
+  isRequired: (): boolean => state.status === 'required',
+
+  // Puts the prompt up (if it isn't already) and resolves with the new access token once
+  // the user signs in again; rejects if they sign out instead
+  waitForToken: (): Promise<string> => {
+    if (state.status !== 'required') setState({ status: 'required', expiresAt: session.get()?.expiresAt ?? null });
+    return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+  },
+
+  // "Not now" on the warning; the prompt still comes back once the session has lapsed
+  dismissWarning: () => {
+    if (state.status === 'warning') setState({ ...state, status: 'idle' });
+  },
+
+  subscribe: (listener: ReauthListener) => {
+    listeners.push(listener);
+    if (listeners.length === 1) schedule();
+    return () => {
+      const idx = listeners.indexOf(listener);
+      if (idx > -1) listeners.splice(idx, 1);
+      if (listeners.length === 0) clearTimers();
+    };
+  },
+};
@@ -0,0 +1,57 @@
+// --- REDACTION ---
+// Everything logged, persisted or exported passes through here first. Values under
+// known secret keys (passwords, tokens, Authorization) are replaced outright; email
+// addresses keep their first letter and domain, enough to tell accounts apart.
+
+// Matched whole, so neighbours like token_type ("Bearer") or expires_in stay readable
+const SECRET_KEYS = [
+  'password', 'current_password', 'new_password',
+  'token', 'access_token', 'refresh_token',
+  'authorization', 'secret', 'api_key', 'x-api-key',
+];
+const isSecretKey = (key: string) => SECRET_KEYS.includes(key.toLowerCase());
+const EMAIL_KEY = /e-?mail/i;
+export const REDACTED = '[redacted]';
+
+const maskEmail = (value: string) => value.replace(/^([^@]?)[^@]*@/, '$1***@');
+
+const redactString = (key: string, value: string): string => {
+  // Keep the scheme ("Bearer") so it's still clear what kind of credential was sent
+  if (/^authorization$/i.test(key)) return /\s/.test(value) ? value.replace(/\s.*/, ` ${REDACTED}`) : REDACTED;
+  if (isSecretKey(key)) return REDACTED;
+  if (EMAIL_KEY.test(key)) return maskEmail(value);
+  return redactText(value);
+};
+
+export const redactValue = (value: unknown, key = ''): unknown => {
+  if (typeof value === 'string') return redactString(key, value);
+  if (Array.isArray(value)) return value.map(item => redactValue(item, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(v, k)]));
+  }
+  return value;
+};
+
+// A value cut off by truncation (no closing quote) is still a secret
+const SECRET_PAIR = new RegExp(`("(?:${SECRET_KEYS.join('|')})"\\s*:\\s*)"[^"]*(?:"|$)`, 'gi');
+
+// Free text: JSON bodies (whole or truncated, as in log previews) and bearer tokens
+export const redactText = (text: string): string => {
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      return JSON.stringify(redactValue(JSON.parse(text)));
+    } catch {
+      // Truncated JSON; the patterns below still catch complete "key": "value" pairs
+    }
+  }
+  return text
+    .replace(SECRET_PAIR, `$1"${REDACTED}"`)
+    .replace(/("[^"]*e-?mail[^"]*"\s*:\s*)"([^"]*)"/gi, (_, prefix, email) => `${prefix}"${maskEmail(email)}"`)
+    .replace(/Bearer\s+[\w.~+/=-]+/g, `Bearer ${REDACTED}`);
+};
+
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> =>
+  redactValue(headers) as Record<string, string>;
+
+export const redactBody = (body: string | undefined): string | undefined =>
+  body && redactText(body);
@@ -0,0 +1,76 @@
+import { parseRetryAfter } from './errors';
+
+// --- RETRY POLICY ---
+// Transient failures (429/502/503/504 and network errors) are retried with exponential
+// backoff and full jitter. Only reads (GET/HEAD/OPTIONS) are retried automatically. A
+// write may have taken effect even when its response was lost, and replaying it can fail
+// where the first attempt worked (a single-use token already spent, an entry already
+// deleted), so writes opt in per request with { retry: true } where replaying is harmless.
+
+export interface RetryPolicy {
+  // Total attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A Retry-After longer than this is not worth waiting for; the failure is returned instead
+  maxRetryAfterMs: number;
+  retryOnStatus: number[];
+  retryOnNetworkError: boolean;
+}
+
+// true forces retries (even for POST), false disables them, an object tweaks the policy
+export type RetryOption = boolean | Partial<RetryPolicy>;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+let defaultPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+export const getRetryPolicy = (): RetryPolicy => defaultPolicy;
+
+export const configureRetry = (overrides: Partial<RetryPolicy>) => {
+  defaultPolicy = { ...defaultPolicy, ...overrides };
+};
+
+// The effective policy for one request, or null when it must not be retried
+export const resolveRetryPolicy = (method: string, option?: RetryOption): RetryPolicy | null => {
+  if (option === false) return null;
+  const optedIn = option !== undefined;
+  if (!optedIn && !SAFE_METHODS.includes(method.toUpperCase())) return null;
+  const policy = typeof option === 'object' ? { ...defaultPolicy, ...option } : defaultPolicy;
+  return policy.maxAttempts > 1 ? policy : null;
+};
+
+// Full jitter: a random delay between 0 and the capped exponential backoff
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+// How long to wait before retrying this response, or null if it should not be retried
+export const retryDelayForResponse = (policy: RetryPolicy, response: Response, attempt: number): number | null => {
+  if (!policy.retryOnStatus.includes(response.status)) return null;
+  const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+  if (retryAfter === null) return backoffDelay(policy, attempt);
+  return retryAfter <= policy.maxRetryAfterMs ? retryAfter : null;
+};
+
+export const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The request was aborted.', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
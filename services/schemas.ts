@@ -0,0 +1,188 @@
+import {
+  User,
+  Film,
+  WatchlistEntry,
+  MetaData,
+  AuthResponse,
+  RefreshResponse,
+  RegisterResponse,
+  FilmListResponse,
+  WatchlistResponse,
+  RecommendationsResponse,
+  MessageResponse,
+} from '../types';
+import { ContractViolationError } from './errors';
+import { parseRuntime } from '../utils/film';
+
+// --- RESPONSE SCHEMAS ---
+// Small validators that check API responses against types.ts at the boundary and
+// normalize the variants the backend is known to send. A mismatch throws a
+// ContractViolationError naming the offending path, e.g. $.films[3].runtime.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ContractViolationError(path, expected, value);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Primitives ---
+
+const string: Schema<string> = (v, path) => typeof v === 'string' ? v : fail(path, 'string', v);
+
+const number: Schema<number> = (v, path) =>
+  typeof v === 'number' && Number.isFinite(v) ? v : fail(path, 'number', v);
+
+const integer: Schema<number> = (v, path) => Number.isInteger(v) ? v as number : fail(path, 'integer', v);
+
+const boolean: Schema<boolean> = (v, path) => typeof v === 'boolean' ? v : fail(path, 'boolean', v);
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => (v, path) =>
+  v === null || v === undefined ? null : schema(v, path);
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (v, path) =>
+  v === undefined || v === null ? undefined : schema(v, path);
+
+// Go encodes nil slices as null; treat that as an empty list
+const array = <T>(schema: Schema<T>): Schema<T[]> => (v, path) => {
+  if (v === null || v === undefined) return [];
+  if (!Array.isArray(v)) return fail(path, 'array', v);
+  return v.map((item, i) => schema(item, `${path}[${i}]`));
+};
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// Validates the declared keys and passes unknown ones through untouched
+const object = <T>(shape: Shape<T>): Schema<T> => (v, path) => {
+  if (!isObject(v)) return fail(path, 'object', v);
+  const out: Record<string, unknown> = { ...v };
+  (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+    const result = shape[key](v[key], `${path}.${key}`);
+    if (result === undefined) delete out[key];
+    else out[key] = result;
+  });
+  return out as T;
+};
+
+const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (v, path) =>
+  v === undefined || v === null ? fallback : schema(v, path);
+
+// --- Normalizers ---
+
+// Runtime arrives as minutes or as strings like "148 min"; always hand out minutes
+const runtimeMinutes: Schema<number> = (v, path) => {
+  const minutes = parseRuntime(v);
+  return minutes === null ? fail(path, 'runtime in minutes or "NNN min"', v) : minutes;
+};
+
+// --- Entities ---
+
+export const userSchema = object<User>({
+  id: integer,
+  name: string,
+  email: string,
+  activated: boolean,
+  created_at: optional(string),
+});
+
+export const filmSchema = object<Film>({
+  id: integer,
+  imdb_id: withDefault(string, ''),
+  title: string,
+  year: integer,
+  runtime: runtimeMinutes,
+  certificate: withDefault(string, ''),
+  rating: number,
+  description: withDefault(string, ''),
+  genres: array(string),
+  directors: array(string),
+  actors: array(string),
+  image: optional(string),
+});
+
+export const watchlistEntrySchema = object<WatchlistEntry>({
+  id: integer,
+  user_id: integer,
+  film_id: integer,
+  added_at: string,
+  notes: withDefault(string, ''),
+  priority: integer,
+  watched: boolean,
+  watched_at: nullable(string),
+  rating: nullable(number),
+  film: filmSchema,
+});
+
+const EMPTY_METADATA: MetaData = { current_page: 0, page_size: 0, first_page: 0, last_page: 0, total_records: 0 };
+
+const metadataFields = object<MetaData>({
+  current_page: integer,
+  page_size: integer,
+  first_page: integer,
+  last_page: integer,
+  total_records: integer,
+});
+
+// The server sends `"metadata": {}` when nothing matched; expand it to zeroes
+export const metadataSchema: Schema<MetaData> = (v, path) => {
+  if (v === undefined || v === null || (isObject(v) && Object.keys(v).length === 0)) return { ...EMPTY_METADATA };
+  return metadataFields(v, path);
+};
+
+// --- Envelopes ---
+
+export const filmListResponseSchema = object<FilmListResponse>({
+  films: array(filmSchema),
+  metadata: metadataSchema,
+});
+
+export const filmResponseSchema = object<{ film: Film }>({
+  film: filmSchema,
+});
+
+export const watchlistResponseSchema = object<WatchlistResponse>({
+  watchlist: array(watchlistEntrySchema),
+  metadata: metadataSchema,
+});
+
+export const recommendationsResponseSchema = object<RecommendationsResponse>({
+  recommendations: array(filmSchema),
+});
+
+export const authResponseSchema = object<AuthResponse>({
+  access_token: string,
+  refresh_token: withDefault(string, ''),
+  token_type: withDefault(string, 'Bearer'),
+  expires_in: withDefault(number, 0),
+  user: userSchema,
+});
+
+export const refreshResponseSchema = object<RefreshResponse>({
+  access_token: string,
+  refresh_token: optional(string),
+  token_type: withDefault(string, 'Bearer'),
+  expires_in: withDefault(number, 0),
+  user: optional(userSchema),
+});
+
+export const userResponseSchema = object<{ user: User }>({
+  user: userSchema,
+});
+
+export const registerResponseSchema = object<RegisterResponse>({
+  user: userSchema,
+  activation_token: object<RegisterResponse['activation_token']>({
+    token: string,
+    expiry: string,
+  }),
+});
+
+export const messageResponseSchema = object<MessageResponse>({
+  message: withDefault(string, ''),
+});
+
+// Watchlist mutations may answer with { watchlist: entry }, or with nothing useful
+export const watchlistEntryEnvelopeSchema: Schema<WatchlistEntry | null> = (v, path) =>
+  isObject(v) && isObject(v.watchlist) ? watchlistEntrySchema(v.watchlist, `${path}.watchlist`) : null;
@@ -0,0 +1,153 @@
+import { AuthResponse, RefreshResponse, User } from '../types';
+import { storage } from '../utils/storage';
+
+// Keys used to persist the session between reloads
+const STORAGE_KEYS = {
+  ACCESS_TOKEN: 'access_token',
+  REFRESH_TOKEN: 'refresh_token',
+  EXPIRES_AT: 'token_expires_at',
+  USER: 'user_data',
+};
+
+// Refresh the access token this long before it actually lapses
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null; // epoch ms, null when the server did not tell us
+  user: User;
+}
+
+export type SessionEvent =
+  | { type: 'started'; session: Session }
+  | { type: 'refreshed'; session: Session }
+  | { type: 'updated'; session: Session }
+  | { type: 'ended'; reason: 'logout' | 'expired' };
+
+type SessionListener = (event: SessionEvent) => void;
+const listeners: SessionListener[] = [];
+
+const load = (): Session | null => {
+  const accessToken = storage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+  const storedUser = storage.getItem(STORAGE_KEYS.USER);
+  if (!accessToken || !storedUser) return null;
+
+  let user: User;
+  try {
+    user = JSON.parse(storedUser);
+    if (!user || typeof user !== 'object') throw new Error('stored user is not an object');
+  } catch {
+    // Corrupt or hand-edited: start signed out rather than fail before the app mounts
+    Object.values(STORAGE_KEYS).forEach(key => storage.removeItem(key));
+    return null;
+  }
+
+  const expiresAt = storage.getItem(STORAGE_KEYS.EXPIRES_AT);
+  return {
+    accessToken,
+    refreshToken: storage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+    expiresAt: expiresAt ? parseInt(expiresAt) : null,
+    user,
+  };
+};
+
+const persist = (s: Session) => {
+  storage.setItem(STORAGE_KEYS.ACCESS_TOKEN, s.accessToken);
+  storage.setItem(STORAGE_KEYS.USER, JSON.stringify(s.user));
+  if (s.refreshToken) storage.setItem(STORAGE_KEYS.REFRESH_TOKEN, s.refreshToken);
+  else storage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+  if (s.expiresAt) storage.setItem(STORAGE_KEYS.EXPIRES_AT, s.expiresAt.toString());
+  else storage.removeItem(STORAGE_KEYS.EXPIRES_AT);
+};
+
+const computeExpiry = (expiresIn?: number) =>
+  expiresIn ? Date.now() + expiresIn * 1000 : null;
+
+let current: Session | null = load();
+
+const notify = (event: SessionEvent) => {
+  listeners.forEach(l => l(event));
+};
+
+export const session = {
+  get: (): Session | null => current,
+
+  getAccessToken: (): string | null => current?.accessToken ?? null,
+
+  // True when the access token is known to lapse within the refresh margin
+  isExpiring: (): boolean => {
+    if (!current?.expiresAt) return false;
+    return current.expiresAt - Date.now() <= REFRESH_MARGIN_MS;
+  },
+
+  // Signing in again as the same user (re-authenticating an expired session) only renews
+  // the tokens, so it is reported as a refresh and nothing user-scoped gets reset
+  start: (data: AuthResponse) => {
+    const renewed = current?.user.id === data.user.id;
+    current = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || null,
+      expiresAt: computeExpiry(data.expires_in),
+      user: data.user,
+    };
+    persist(current);
+    notify({ type: renewed ? 'refreshed' : 'started', session: current });
+  },
+
+  update: (data: RefreshResponse) => {
+    if (!current) return;
+    current = {
+      accessToken: data.access_token,
+      // Servers that rotate refresh tokens send a new one, others keep the old
+      refreshToken: data.refresh_token || current.refreshToken,
+      expiresAt: computeExpiry(data.expires_in),
+      user: data.user || current.user,
+    };
+    persist(current);
+    notify({ type: 'refreshed', session: current });
+  },
+
+  // Replaces the signed-in user's profile (e.g. after activation); other users are ignored
+  updateUser: (user: User) => {
+    if (!current || current.user.id !== user.id) return;
+    current = { ...current, user };
+    persist(current);
+    notify({ type: 'updated', session: current });
+  },
+
+  // The single exit point: explicit sign out and failed refreshes both land here
+  end: (reason: 'logout' | 'expired') => {
+    if (!current) return;
+    current = null;
+    Object.values(STORAGE_KEYS).forEach(key => storage.removeItem(key));
+    notify({ type: 'ended', reason });
+  },
+
+  // Adopts what another tab wrote to storage: a sign in (possibly as someone else),
+  // a refresh, a profile change or a sign out
+  syncFromStorage: (endReason: 'logout' | 'expired' = 'logout') => {
+    const previous = current;
+    const stored = load();
+    if (!stored) {
+      if (!previous) return;
+      // Storage is already clear; just drop the in-memory copy
+      current = null;
+      notify({ type: 'ended', reason: endReason });
+      return;
+    }
+
+    current = stored;
+    if (!previous || previous.user.id !== stored.user.id) notify({ type: 'started', session: stored });
+    else if (previous.accessToken !== stored.accessToken) notify({ type: 'refreshed', session: stored });
+    else if (JSON.stringify(previous.user) !== JSON.stringify(stored.user)) notify({ type: 'updated', session: stored });
+  },
+
+  subscribe: (listener: SessionListener) => {
+    listeners.push(listener);
+    return () => {
+      const idx = listeners.indexOf(listener);
+      if (idx > -1) listeners.splice(idx, 1);
+    };
+  },
+};
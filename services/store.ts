@@ -0,0 +1,279 @@
+import { useRef, useSyncExternalStore } from 'react';
+import { Film, MetaData, WatchlistEntry } from '../types';
+import { session } from './session';
+
+// --- ENTITY STORE ---
+// One normalized copy of every film and watchlist entry the client has seen, shared by
+// all pages. Films are keyed by film id, watchlist entries by entry id with a film id
+// index next to them. State is replaced (never mutated) on every change.
+//
+// `watchlist` only ever holds what the server confirmed. Optimistic changes live in
+// `optimisticByFilm` as the entry each film is expected to end up with (null: removed)
+// and take precedence in the selectors until the mutation settles. `watchlistSync`
+// says whether such a film is being saved right now or waits for the network.
+
+export interface FilmQueryResult {
+  ids: number[];
+  metadata: MetaData;
+  fetchedAt: number;
+}
+
+export type WatchlistSyncState = 'saving' | 'queued';
+
+// `invalidateWatchlist` bumps `version` for changes that can't be applied in place
+// (upsert, patch and remove write the entry directly and leave it alone). A full load
+// records the version it started at, so a load that raced with an invalidation still
+// counts as stale.
+export interface WatchlistStatus {
+  loadedAt: number | null;
+  loadedVersion: number;
+  version: number;
+}
+
+export interface StoreState {
+  films: Record<number, Film>;
+  filmFetchedAt: Record<number, number>;
+  filmQueries: Record<string, FilmQueryResult>;
+  watchlist: Record<number, WatchlistEntry>;
+  watchlistByFilm: Record<number, number>;
+  optimisticByFilm: Record<number, WatchlistEntry | null>;
+  watchlistSync: Record<number, WatchlistSyncState>;
+  watchlistStatus: WatchlistStatus;
+}
+
+const initialState = (): StoreState => ({
+  films: {},
+  filmFetchedAt: {},
+  filmQueries: {},
+  watchlist: {},
+  watchlistByFilm: {},
+  optimisticByFilm: {},
+  watchlistSync: {},
+  watchlistStatus: { loadedAt: null, loadedVersion: 0, version: 0 },
+});
+
+let state: StoreState = initialState();
+
+type StoreListener = () => void;
+const listeners = new Set<StoreListener>();
+
+const setState = (update: (prev: StoreState) => StoreState) => {
+  state = update(state);
+  listeners.forEach(l => l());
+};
+
+const indexByFilm = (watchlist: Record<number, WatchlistEntry>) => {
+  const index: Record<number, number> = {};
+  Object.values(watchlist).forEach(e => { index[e.film_id] = e.id; });
+  return index;
+};
+
+const withFilms = (films: Record<number, Film>, incoming: Film[]) => {
+  const next = { ...films };
+  incoming.forEach(f => { next[f.id] = f; });
+  return next;
+};
+
+export const store = {
+  getState: () => state,
+
+  subscribe: (listener: StoreListener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  upsertFilms: (films: Film[]) => setState(prev => {
+    const now = Date.now();
+    const fetchedAt = { ...prev.filmFetchedAt };
+    films.forEach(f => { fetchedAt[f.id] = now; });
+    return { ...prev, films: withFilms(prev.films, films), filmFetchedAt: fetchedAt };
+  }),
+
+  setFilmQuery: (key: string, films: Film[], metadata: MetaData) => setState(prev => {
+    const now = Date.now();
+    const fetchedAt = { ...prev.filmFetchedAt };
+    films.forEach(f => { fetchedAt[f.id] = now; });
+    return {
+      ...prev,
+      films: withFilms(prev.films, films),
+      filmFetchedAt: fetchedAt,
+      filmQueries: { ...prev.filmQueries, [key]: { ids: films.map(f => f.id), metadata, fetchedAt: now } },
+    };
+  }),
+
+  // Replaces the whole watchlist with a complete listing from the server. `version` is
+  // the watchlist version read when that listing was requested.
+  setWatchlist: (entries: WatchlistEntry[], version: number) => setState(prev => {
+    const watchlist: Record<number, WatchlistEntry> = {};
+    entries.forEach(e => { watchlist[e.id] = e; });
+    return {
+      ...prev,
+      films: withFilms(prev.films, entries.map(e => e.film)),
+      watchlist,
+      watchlistByFilm: indexByFilm(watchlist),
+      watchlistStatus: { ...prev.watchlistStatus, loadedAt: Date.now(), loadedVersion: version },
+    };
+  }),
+
+  // A film is on the watchlist at most once, so this replaces any other entry for the film
+  upsertWatchlistEntry: (entry: WatchlistEntry) => setState(prev => {
+    const watchlist = { ...prev.watchlist };
+    const previousId = prev.watchlistByFilm[entry.film_id];
+    if (previousId !== undefined) delete watchlist[previousId];
+    watchlist[entry.id] = entry;
+    return {
+      ...prev,
+      films: entry.film ? withFilms(prev.films, [entry.film]) : prev.films,
+      watchlist,
+      watchlistByFilm: indexByFilm(watchlist),
+    };
+  }),
+
+  patchWatchlistEntry: (entryId: number, updates: Partial<WatchlistEntry>) => setState(prev => {
+    const existing = prev.watchlist[entryId];
+    if (!existing) return prev;
+    return { ...prev, watchlist: { ...prev.watchlist, [entryId]: { ...existing, ...updates } } };
+  }),
+
+  removeWatchlistEntry: (entryId: number) => setState(prev => {
+    if (!prev.watchlist[entryId]) return prev;
+    const { [entryId]: _removed, ...watchlist } = prev.watchlist;
+    return { ...prev, watchlist, watchlistByFilm: indexByFilm(watchlist) };
+  }),
+
+  setOptimisticEntry: (filmId: number, entry: WatchlistEntry | null, sync: WatchlistSyncState) => setState(prev => ({
+    ...prev,
+    optimisticByFilm: { ...prev.optimisticByFilm, [filmId]: entry },
+    watchlistSync: { ...prev.watchlistSync, [filmId]: sync },
+  })),
+
+  clearOptimisticEntry: (filmId: number) => setState(prev => {
+    if (!(filmId in prev.optimisticByFilm)) return prev;
+    const { [filmId]: _settled, ...optimisticByFilm } = prev.optimisticByFilm;
+    const { [filmId]: _synced, ...watchlistSync } = prev.watchlistSync;
+    return { ...prev, optimisticByFilm, watchlistSync };
+  }),
+
+  // Marks the watchlist for refetching; mounted views revalidate on their own
+  invalidateWatchlist: () => setState(prev => ({
+    ...prev,
+    watchlistStatus: { ...prev.watchlistStatus, version: prev.watchlistStatus.version + 1 },
+  })),
+
+  reset: () => setState(() => initialState()),
+};
+
+// Another user's data must never outlive their session
+session.subscribe((event) => {
+  if (event.type === 'ended' || event.type === 'started') store.reset();
+});
+
+// --- Selectors ---
+
+export const selectFilm = (id: number) => (s: StoreState): Film | null => s.films[id] ?? null;
+
+export const selectWatchlistStatus = (s: StoreState) => s.watchlistStatus;
+
+export const isWatchlistStale = (status: WatchlistStatus) =>
+  status.loadedAt === null || status.loadedVersion < status.version;
+
+// The server's view of a film's entry, ignoring anything still in flight
+export const selectConfirmedWatchlistEntry = (filmId: number) => (s: StoreState): WatchlistEntry | null => {
+  const entryId = s.watchlistByFilm[filmId];
+  return entryId !== undefined ? s.watchlist[entryId] ?? null : null;
+};
+
+export const selectWatchlistEntryForFilm = (filmId: number) => (s: StoreState): WatchlistEntry | null =>
+  filmId in s.optimisticByFilm ? s.optimisticByFilm[filmId] : selectConfirmedWatchlistEntry(filmId)(s);
+
+export const selectWatchlistSyncState = (filmId: number) => (s: StoreState): WatchlistSyncState | null =>
+  s.watchlistSync[filmId] ?? null;
+
+const mergedWatchlist = (s: StoreState): WatchlistEntry[] => {
+  const confirmed = Object.values(s.watchlist).filter(e => !(e.film_id in s.optimisticByFilm));
+  const optimistic = Object.values(s.optimisticByFilm).filter((e): e is WatchlistEntry => e !== null);
+  return [...confirmed, ...optimistic];
+};
+
+// Every film's current entry, optimistic changes included
+export const selectWatchlistByFilm = (s: StoreState): Record<number, WatchlistEntry> => {
+  const byFilm: Record<number, WatchlistEntry> = {};
+  mergedWatchlist(s).forEach(e => { byFilm[e.film_id] = e; });
+  return byFilm;
+};
+
+// Highest priority first, matching the server's -priority sort
+export const selectWatchlistEntries = (watched?: boolean) => (s: StoreState): WatchlistEntry[] =>
+  mergedWatchlist(s)
+    .filter(e => watched === undefined || e.watched === watched)
+    .sort((a, b) => b.priority - a.priority || a.film_id - b.film_id);
+
+export const selectFilmQuery = (key: string) => (s: StoreState): { films: Film[]; metadata: MetaData; fetchedAt: number } | null => {
+  const query = s.filmQueries[key];
+  if (!query) return null;
+  return { films: query.ids.map(id => s.films[id]).filter(Boolean), metadata: query.metadata, fetchedAt: query.fetchedAt };
+};
+
+export type FacetField = 'genres' | 'actors' | 'directors';
+
+// Every distinct value of a list field across the films seen so far, most common first.
+// Built once per field so components share the store's per-selector caching.
+const facetOf = (field: FacetField) => (s: StoreState): string[] => {
+  const counts = new Map<string, { value: string; count: number }>();
+  Object.values(s.films).forEach(film => {
+    (film[field] || []).forEach(value => {
+      const key = value.trim().toLowerCase();
+      if (!key) return;
+      const seen = counts.get(key);
+      if (seen) seen.count++;
+      else counts.set(key, { value: value.trim(), count: 1 });
+    });
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .map(f => f.value);
+};
+
+const facetSelectors: Record<FacetField, (s: StoreState) => string[]> = {
+  genres: facetOf('genres'),
+  actors: facetOf('actors'),
+  directors: facetOf('directors'),
+};
+
+export const selectFilmFacet = (field: FacetField) => facetSelectors[field];
+
+// Every certificate (PG-13, R, ...) among the films seen so far
+export const selectFilmCertificates = (s: StoreState): string[] =>
+  [...new Set(Object.values(s.films).map(f => (f.certificate || '').trim()).filter(Boolean))].sort();
+
+// --- React binding ---
+
+const shallowEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+  }
+  return false;
+};
+
+// Subscribes a component to a slice of the store. Selectors may build new arrays;
+// results that are shallowly equal to the previous one keep their identity, so
+// components only re-render when what they selected actually changed.
+export const useStore = <T>(selector: (s: StoreState) => T): T => {
+  const cache = useRef<{ state: StoreState; selector: (s: StoreState) => T; value: T } | null>(null);
+
+  const getSnapshot = () => {
+    const current = store.getState();
+    const cached = cache.current;
+    if (cached && cached.state === current && cached.selector === selector) return cached.value;
+    const value = selector(current);
+    cache.current = {
+      state: current,
+      selector,
+      value: cached && shallowEqual(cached.value, value) ? cached.value : value,
+    };
+    return cache.current.value;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
@@ -0,0 +1,92 @@
+import { WatchlistEntry } from '../types';
+import { session } from './session';
+import { store } from './store';
+import { storage } from '../utils/storage';
+
+// --- CROSS-TAB SYNC ---
+// Keeps every open CineGraph tab on the same session and watchlist. Messages travel over
+// a BroadcastChannel, or where that is missing through a localStorage key whose `storage`
+// event reaches the other tabs. Only settled facts are shared: session changes are re-read
+// from storage, and watchlist changes are what the server confirmed.
+
+export type WatchlistChange =
+  | { kind: 'upsert'; entry: WatchlistEntry }
+  | { kind: 'patch'; entryId: number; updates: Partial<WatchlistEntry> }
+  | { kind: 'remove'; entryId: number }
+  | { kind: 'invalidate' };
+
+type TabMessage =
+  | { type: 'session'; endReason?: 'logout' | 'expired' }
+  | { type: 'watchlist'; userId: number; change: WatchlistChange };
+
+const CHANNEL_NAME = 'cinegraph';
+const STORAGE_KEY = 'cinegraph_tab_sync';
+
+let channel: BroadcastChannel | null = null;
+
+// Set while applying another tab's message, so it isn't echoed back to everyone
+let applyingRemote = false;
+
+const post = (message: TabMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  // The nonce makes every write a change; setting the same value twice fires no `storage` event
+  storage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` }));
+};
+
+const applyWatchlistChange = (change: WatchlistChange) => {
+  switch (change.kind) {
+    case 'upsert': return store.upsertWatchlistEntry(change.entry);
+    case 'patch': return store.patchWatchlistEntry(change.entryId, change.updates);
+    case 'remove': return store.removeWatchlistEntry(change.entryId);
+    case 'invalidate': return store.invalidateWatchlist();
+  }
+};
+
+const receive = (message: TabMessage) => {
+  applyingRemote = true;
+  try {
+    if (message.type === 'session') {
+      session.syncFromStorage(message.endReason);
+    } else if (message.userId === session.get()?.user.id) {
+      // A change made by whoever was signed in over there is none of our business otherwise
+      applyWatchlistChange(message.change);
+    }
+  } finally {
+    applyingRemote = false;
+  }
+};
+
+export const tabSync = {
+  // Call after a watchlist change the server confirmed has been applied to this tab's store
+  publishWatchlistChange: (change: WatchlistChange) => {
+    const userId = session.get()?.user.id;
+    if (userId === undefined || applyingRemote) return;
+    post({ type: 'watchlist', userId, change });
+  },
+};
+
+if (typeof window !== 'undefined') {
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<TabMessage>) => receive(e.data);
+  } else {
+    window.addEventListener('storage', (e) => {
+      if (e.key !== STORAGE_KEY || !e.newValue) return;
+      try {
+        receive(JSON.parse(e.newValue).message);
+      } catch {
+        // Not something we wrote; ignore
+      }
+    });
+  }
+
+  // Sign in, refresh, profile change and sign out: the other tabs re-read storage.
+  // session persists before notifying, so storage is current by the time they look.
+  session.subscribe((event) => {
+    if (applyingRemote) return;
+    post({ type: 'session', endReason: event.type === 'ended' ? event.reason : undefined });
+  });
+}
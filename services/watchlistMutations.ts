@@ -0,0 +1,389 @@
+import { Film, WatchlistEntry } from '../types';
+import { api, addLog } from './api';
+import { AuthError, ConflictError, NetworkError, NotFoundError } from './errors';
+import { loadWatchlist } from './queries';
+import { store, selectConfirmedWatchlistEntry, selectFilm } from './store';
+import { session } from './session';
+import { notices } from './notices';
+import { tabSync } from './tabSync';
+import { createKeyValueStore } from '../utils/idb';
+
+// --- OPTIMISTIC WATCHLIST MUTATIONS ---
+// Adds, updates and removals show up in the store immediately and are sent in the
+// background. Mutations on one film go out strictly in order (a removal right after
+// an add needs the add's entry id), and the optimistic entry is always recomputed as
+// the confirmed entry with every still-pending mutation replayed on top, so settling
+// or rolling back one of them never loses the others.
+//
+// Without a network, mutations wait in a per-user queue in IndexedDB instead of
+// failing. Waiting mutations on the same film are collapsed (add then remove cancels
+// out), and the queue is replayed when the browser comes back online, when the next
+// sign-in restores it, or on a timer while the server stays unreachable. Films are
+// independent of each other, so only the order within a film is preserved.
+
+export type WatchlistMutation =
+  | { kind: 'add'; film: Film; priority: number; notes: string }
+  | { kind: 'update'; updates: Partial<WatchlistEntry> }
+  | { kind: 'remove' };
+
+// saved: confirmed by the server; queued: waiting for the network; failed: rolled back;
+// discarded: the session changed before it settled
+export type WatchlistMutationOutcome = 'saved' | 'queued' | 'failed' | 'discarded';
+
+// What the durable queue holds for each mutation
+interface StoredMutation {
+  id: number;
+  filmId: number;
+  title: string;
+  mutation: WatchlistMutation;
+  createdAt: string;
+  // Sent at least once without an answer, so the server may already have applied it
+  attempted: boolean;
+}
+
+interface PendingMutation extends StoredMutation {
+  state: 'queued' | 'sending';
+  waiters: Array<(outcome: WatchlistMutationOutcome) => void>;
+}
+
+// While paused, nothing is sent until the next retry or `online` event
+const SYNC_RETRY_MS = 30 * 1000;
+
+const queueStore = createKeyValueStore<StoredMutation[]>('cinegraph-watchlist-queue');
+
+const pendingByFilm = new Map<number, PendingMutation[]>();
+const flushing = new Set<number>();
+let nextId = 1;
+let paused = false;
+let offlineNoticeShown = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped when the session changes; mutations from the previous session stop touching the store
+let sessionEpoch = 0;
+
+const isOnline = () =>
+  !paused && (typeof navigator === 'undefined' || navigator.onLine !== false);
+
+const confirmedEntry = (filmId: number) => selectConfirmedWatchlistEntry(filmId)(store.getState());
+
+const applyMutation = (entry: WatchlistEntry | null, pending: PendingMutation): WatchlistEntry | null => {
+  const { mutation } = pending;
+  switch (mutation.kind) {
+    case 'add':
+      if (entry) return entry;
+      // Provisional entries get negative ids so they never collide with the server's
+      return {
+        id: -pending.id,
+        user_id: session.get()?.user.id ?? 0,
+        film_id: mutation.film.id,
+        added_at: pending.createdAt,
+        notes: mutation.notes,
+        priority: mutation.priority,
+        watched: false,
+        watched_at: null,
+        rating: null,
+        film: mutation.film,
+      };
+    case 'update':
+      return entry ? { ...entry, ...mutation.updates } : null;
+    case 'remove':
+      return null;
+  }
+};
+
+const recompute = (filmId: number) => {
+  const pending = pendingByFilm.get(filmId) || [];
+  if (pending.length === 0) {
+    pendingByFilm.delete(filmId);
+    store.clearOptimisticEntry(filmId);
+    return;
+  }
+  const sync = pending[0].state === 'sending' ? 'saving' : 'queued';
+  store.setOptimisticEntry(filmId, pending.reduce(applyMutation, confirmedEntry(filmId)), sync);
+};
+
+// A reload of the confirmed watchlist changes what pending mutations apply to
+let lastConfirmed = store.getState().watchlist;
+store.subscribe(() => {
+  const { watchlist } = store.getState();
+  if (watchlist === lastConfirmed) return;
+  lastConfirmed = watchlist;
+  Array.from(pendingByFilm.keys()).forEach(recompute);
+});
+
+// --- Durable queue ---
+
+const queueKey = (userId: number, filmId: number) => `${userId}:${filmId}`;
+
+const persist = (filmId: number) => {
+  const userId = session.get()?.user.id;
+  if (userId === undefined) return;
+  const stored: StoredMutation[] = (pendingByFilm.get(filmId) || [])
+    .map(({ id, title, mutation, createdAt, attempted }) => ({ id, filmId, title, mutation, createdAt, attempted }));
+  const write = stored.length > 0
+    ? queueStore.set(queueKey(userId, filmId), stored)
+    : queueStore.remove(queueKey(userId, filmId));
+  write.catch((e) => addLog('ERR', 'Could not save the offline watchlist queue', e?.message));
+};
+
+// Picks up whatever the signed-in user left in the queue and starts replaying it
+const restore = async () => {
+  const userId = session.get()?.user.id;
+  if (userId === undefined) return;
+  const epoch = sessionEpoch;
+  const saved = await queueStore.entries().catch(() => [] as Array<[string, StoredMutation[]]>);
+  if (epoch !== sessionEpoch) return;
+
+  const restored = saved.filter(([key]) => key.startsWith(`${userId}:`));
+  restored.forEach(([, stored]) => {
+    if (stored.length === 0) return;
+    const filmId = stored[0].filmId;
+    const pending = stored.map((m): PendingMutation => ({ ...m, attempted: !!m.attempted, state: 'queued', waiters: [] }));
+    pendingByFilm.set(filmId, [...pending, ...(pendingByFilm.get(filmId) || [])]);
+    stored.forEach(m => { nextId = Math.max(nextId, m.id + 1); });
+    recompute(filmId);
+  });
+  if (restored.length > 0) {
+    addLog('INFO', `Restored queued watchlist changes for ${restored.length} film(s)`);
+    resume();
+  }
+};
+
+// --- Sending ---
+
+const settle = (pending: PendingMutation, outcome: WatchlistMutationOutcome) => {
+  pending.waiters.forEach(resolve => resolve(outcome));
+  pending.waiters = [];
+};
+
+const requireToken = () => {
+  const token = session.getAccessToken();
+  if (!token) throw new AuthError(401, 'You are signed out');
+  return token;
+};
+
+// Sends one mutation; the API client writes the confirmed result into the store
+const send = async (pending: PendingMutation) => {
+  const { filmId, mutation } = pending;
+  const token = requireToken();
+
+  switch (mutation.kind) {
+    case 'add':
+      try {
+        await api.addToWatchlist(token, filmId, mutation.priority, mutation.notes);
+      } catch (e) {
+        if (!(e instanceof ConflictError)) throw e;
+        // Added elsewhere, or a replay whose first attempt did reach the server:
+        // keep the server's entry and apply this change's priority and notes to it
+        await loadWatchlist(token, { force: true });
+        const existing = confirmedEntry(filmId);
+        if (!existing) throw e;
+        if (existing.priority !== mutation.priority || existing.notes !== mutation.notes) {
+          await api.updateWatchlist(token, existing.id, { priority: mutation.priority, notes: mutation.notes });
+          notices.push('info', `"${pending.title}" was already on your watchlist; your priority and notes were applied to it.`);
+        }
+      }
+      return;
+
+    case 'update': {
+      // The add response may not have told us the new id; a reload will
+      if (!confirmedEntry(filmId)) await loadWatchlist(token);
+      const entry = confirmedEntry(filmId);
+      if (!entry) throw new NotFoundError('it is no longer on your watchlist');
+      await api.updateWatchlist(token, entry.id, mutation.updates);
+      return;
+    }
+
+    case 'remove': {
+      if (!confirmedEntry(filmId)) await loadWatchlist(token);
+      const entry = confirmedEntry(filmId);
+      if (!entry) return;
+      try {
+        await api.removeFromWatchlist(token, entry.id);
+      } catch (e) {
+        // Already gone is what we wanted
+        if (!(e instanceof NotFoundError)) throw e;
+        store.removeWatchlistEntry(entry.id);
+        tabSync.publishWatchlistChange({ kind: 'remove', entryId: entry.id });
+      }
+    }
+  }
+};
+
+const describe = (mutation: WatchlistMutation, title: string) => {
+  switch (mutation.kind) {
+    case 'add': return `add "${title}" to`;
+    case 'update': return `update "${title}" on`;
+    case 'remove': return `remove "${title}" from`;
+  }
+};
+
+// Drops a rejected mutation. Later changes to a film that never made it onto the
+// watchlist have nothing to apply to, so they go with it.
+const rollBack = (pending: PendingMutation, error: unknown) => {
+  const { filmId, mutation } = pending;
+  const message = error instanceof Error ? error.message : String(error);
+  const list = pendingByFilm.get(filmId) || [];
+  const dropped = mutation.kind === 'add' ? list : [pending];
+  pendingByFilm.set(filmId, list.filter(p => !dropped.includes(p)));
+  dropped.forEach(p => settle(p, 'failed'));
+
+  addLog('ERR', `Watchlist ${mutation.kind} for film ${filmId} failed; rolling back`, message);
+  notices.push('error', `Couldn't ${describe(mutation, pending.title)} your watchlist: ${message}. The change was undone.`);
+};
+
+const goOffline = () => {
+  paused = true;
+  if (!offlineNoticeShown) {
+    offlineNoticeShown = true;
+    notices.push('info', "You're offline. Watchlist changes are kept on this device and will sync when you reconnect.");
+  }
+  if (!retryTimer) {
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      resume();
+    }, SYNC_RETRY_MS);
+  }
+};
+
+// Sends a film's pending mutations one after another until its queue is empty or
+// the network goes away
+const flush = async (filmId: number) => {
+  if (flushing.has(filmId)) return;
+  const epoch = sessionEpoch;
+
+  if (!isOnline()) {
+    goOffline();
+    (pendingByFilm.get(filmId) || []).forEach(p => settle(p, 'queued'));
+    return;
+  }
+
+  flushing.add(filmId);
+  try {
+    while (epoch === sessionEpoch) {
+      const head = pendingByFilm.get(filmId)?.[0];
+      if (!head) break;
+      head.state = 'sending';
+      recompute(filmId);
+      if (!head.attempted) {
+        head.attempted = true;
+        persist(filmId);
+      }
+
+      try {
+        await send(head);
+        if (epoch !== sessionEpoch) return;
+        pendingByFilm.set(filmId, (pendingByFilm.get(filmId) || []).filter(p => p !== head));
+        settle(head, 'saved');
+      } catch (e) {
+        if (epoch !== sessionEpoch) return;
+        if (e instanceof NetworkError) {
+          head.state = 'queued';
+          recompute(filmId);
+          goOffline();
+          (pendingByFilm.get(filmId) || []).forEach(p => settle(p, 'queued'));
+          return;
+        }
+        rollBack(head, e);
+      }
+      recompute(filmId);
+      persist(filmId);
+    }
+  } finally {
+    if (epoch === sessionEpoch) flushing.delete(filmId);
+  }
+};
+
+// Replays everything that is waiting, e.g. once the network is back. While the
+// browser says it is offline there is no point trying; the `online` event calls back.
+const resume = async () => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+  paused = false;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  await Promise.all(Array.from(pendingByFilm.keys()).map(flush));
+  if (offlineNoticeShown && !paused && pendingByFilm.size === 0) {
+    offlineNoticeShown = false;
+    notices.push('success', 'Your offline watchlist changes are synced.');
+  }
+};
+
+// --- Queueing ---
+
+// Folds a new mutation into the last one still waiting to be sent. Returns the
+// replacement list (empty when they cancel out) or null when they don't combine.
+const collapse = (last: WatchlistMutation, next: WatchlistMutation): WatchlistMutation[] | null => {
+  if (last.kind === 'add' && next.kind === 'remove') return [];
+  if (last.kind === 'add' && next.kind === 'update' && Object.keys(next.updates).every(k => k === 'priority' || k === 'notes')) {
+    return [{ ...last, priority: next.updates.priority ?? last.priority, notes: next.updates.notes ?? last.notes }];
+  }
+  if (last.kind === 'update' && next.kind === 'update') return [{ kind: 'update', updates: { ...last.updates, ...next.updates } }];
+  if (last.kind === 'update' && next.kind === 'remove') return [next];
+  return null;
+};
+
+// Applies the mutation optimistically and queues it behind any others for the same
+// film. Failures surface as notices; the promise only reports how it ended.
+const mutate = (filmId: number, mutation: WatchlistMutation): Promise<WatchlistMutationOutcome> =>
+  new Promise((resolve) => {
+    const title = mutation.kind === 'add' ? mutation.film.title : selectFilm(filmId)(store.getState())?.title ?? `film ${filmId}`;
+    const list = pendingByFilm.get(filmId) || [];
+    const last = list[list.length - 1];
+    // Something the server may already have seen can't be folded away
+    const collapsed = last && last.state === 'queued' && !last.attempted ? collapse(last.mutation, mutation) : null;
+
+    if (collapsed && collapsed.length === 0) {
+      list.pop();
+      settle(last, 'saved');
+      resolve('saved');
+    } else if (collapsed) {
+      last.mutation = collapsed[0];
+      last.waiters.push(resolve);
+    } else {
+      list.push({ id: nextId++, filmId, title, mutation, createdAt: new Date().toISOString(), attempted: false, state: 'queued', waiters: [resolve] });
+    }
+
+    pendingByFilm.set(filmId, list);
+    recompute(filmId);
+    persist(filmId);
+    flush(filmId);
+  });
+
+export const watchlistMutations = {
+  add: (film: Film, priority: number, notes: string) =>
+    mutate(film.id, { kind: 'add', film, priority, notes }),
+
+  update: (filmId: number, updates: Partial<WatchlistEntry>) =>
+    mutate(filmId, { kind: 'update', updates }),
+
+  remove: (filmId: number) =>
+    mutate(filmId, { kind: 'remove' }),
+
+  // Sends whatever is waiting without waiting for the retry timer
+  resume,
+};
+
+session.subscribe((event) => {
+  if (event.type !== 'started' && event.type !== 'ended') return;
+  sessionEpoch++;
+  // A flush still running for the old session stops without settling anything, so its
+  // callers are answered here
+  pendingByFilm.forEach(list => list.forEach(p => settle(p, 'discarded')));
+  pendingByFilm.clear();
+  flushing.clear();
+  paused = false;
+  offlineNoticeShown = false;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (event.type === 'started') restore();
+});
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { resume(); });
+}
+
+restore();
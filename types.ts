@@ -11,7 +11,7 @@ export interface Film {
   imdb_id: string;
   title: string;
   year: number;
-  runtime: string | number;
+  runtime: string | number; // the wire format varies; services/schemas.ts normalizes it to minutes
   certificate: string;
   rating: number;
   description: string;
@@ -42,6 +42,14 @@ export interface AuthResponse {
   user: User;
 }
 
+export interface RefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+  expires_in: number;
+  user?: User;
+}
+
 export interface MetaData {
   current_page: number;
   page_size: number;
@@ -72,6 +80,11 @@ export interface RegisterResponse {
   };
 }
 
+// Endpoints that only acknowledge the request, e.g. { "message": "your password was successfully reset" }
+export interface MessageResponse {
+  message: string;
+}
+
 export enum SortOption {
   RatingDesc = "-rating",
   YearDesc = "-year",
@@ -0,0 +1,161 @@
+// The Dashboard's tab, view, sort, applied filters and loaded page count, as they are
+// kept in the URL (#/?tab=discover&view=graph&genres=sci-fi&directors=Villeneuve&sort=-year)
+// so a view can be shared, reloaded, and stepped through with back/forward.
+
+import { SortOption } from '../types';
+import type { FilmFilters } from '../services/api';
+import { parseRuntime } from './film';
+
+export type Tab = 'discover' | 'watchlist' | 'recommendations';
+export type ViewMode = 'grid' | 'graph';
+
+export interface DashboardFilters {
+  title: string;
+  genres: string;
+  actors: string;
+  directors: string;
+  // Ranges as typed (runtime also as "2h" or "1h 30m"), empty when open-ended
+  yearMin: string;
+  yearMax: string;
+  ratingMin: string;
+  ratingMax: string;
+  runtimeMin: string;
+  runtimeMax: string;
+  certificates: string;
+}
+
+export interface DashboardParams {
+  tab: Tab;
+  view: ViewMode;
+  sort: string;
+  filters: DashboardFilters;
+  page: number; // pages of results loaded so far
+}
+
+export const TABS: Tab[] = ['discover', 'watchlist', 'recommendations'];
+export const VIEW_MODES: ViewMode[] = ['grid', 'graph'];
+
+export const FILM_SORTS = ['-rating', 'rating', '-year', 'year', 'title', '-title', '-runtime', 'runtime'];
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  title: '',
+  genres: '',
+  actors: '',
+  directors: '',
+  yearMin: '',
+  yearMax: '',
+  ratingMin: '',
+  ratingMax: '',
+  runtimeMin: '',
+  runtimeMax: '',
+  certificates: '',
+};
+
+const FILTER_KEYS = Object.keys(EMPTY_FILTERS) as Array<keyof DashboardFilters>;
+
+// Filters that take several values, comma-separated; the API matches films having all of them
+export const LIST_FILTERS = ['genres', 'actors', 'directors'] as const;
+export type ListFilter = typeof LIST_FILTERS[number];
+
+export const splitFilterValues = (value: string): string[] =>
+  value.split(',').map(v => v.trim()).filter(Boolean);
+
+export const joinFilterValues = (values: string[]): string =>
+  values.map(v => v.trim()).filter(Boolean).join(',');
+
+const year = (value: string) => {
+  const parsed = parseInt(value);
+  return Number.isFinite(parsed) && parsed > 0 ? String(parsed) : '';
+};
+
+const rating = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? String(Math.round(Math.min(10, Math.max(0, parsed)) * 10) / 10) : '';
+};
+
+// In minutes, from whatever parseRuntime understands
+const runtime = (value: string) => {
+  const minutes = value.trim() ? parseRuntime(value) : null;
+  return minutes === null ? '' : String(minutes);
+};
+
+// One spelling per set of filters, so two can be compared as strings. Values that make
+// no sense (a year of "abc") are dropped.
+export const normalizeFilters = (filters: DashboardFilters): DashboardFilters => ({
+  title: filters.title.trim(),
+  genres: joinFilterValues(splitFilterValues(filters.genres)),
+  actors: joinFilterValues(splitFilterValues(filters.actors)),
+  directors: joinFilterValues(splitFilterValues(filters.directors)),
+  yearMin: year(filters.yearMin),
+  yearMax: year(filters.yearMax),
+  ratingMin: rating(filters.ratingMin),
+  ratingMax: rating(filters.ratingMax),
+  runtimeMin: runtime(filters.runtimeMin),
+  runtimeMax: runtime(filters.runtimeMax),
+  certificates: joinFilterValues(splitFilterValues(filters.certificates)),
+});
+
+const numberOrUndefined = (value: string) => value === '' ? undefined : Number(value);
+
+// What the films query takes
+export const toFilmFilters = (filters: DashboardFilters): FilmFilters => {
+  const normalized = normalizeFilters(filters);
+  return {
+    title: normalized.title,
+    genres: normalized.genres,
+    actors: normalized.actors,
+    directors: normalized.directors,
+    yearMin: numberOrUndefined(normalized.yearMin),
+    yearMax: numberOrUndefined(normalized.yearMax),
+    ratingMin: numberOrUndefined(normalized.ratingMin),
+    ratingMax: numberOrUndefined(normalized.ratingMax),
+    runtimeMin: numberOrUndefined(normalized.runtimeMin),
+    runtimeMax: numberOrUndefined(normalized.runtimeMax),
+    certificates: normalized.certificates,
+  };
+};
+
+export const DEFAULT_PARAMS: DashboardParams = {
+  tab: 'discover',
+  view: 'grid',
+  sort: SortOption.RatingDesc,
+  filters: EMPTY_FILTERS,
+  page: 1,
+};
+
+// A hand-edited link can ask for any page count; each page is a request, so keep it sane
+const MAX_PAGE = 10;
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+
+// Anything missing or unrecognised falls back to the default; `tabs` limits the tab
+// to the ones the user can see (an unactivated account only has Discover)
+export const parseDashboardParams = (search: URLSearchParams, tabs: Tab[] = TABS): DashboardParams => {
+  const page = parseInt(search.get('page') || '');
+  return {
+    tab: oneOf(search.get('tab'), tabs, DEFAULT_PARAMS.tab),
+    view: oneOf(search.get('view'), VIEW_MODES, DEFAULT_PARAMS.view),
+    sort: oneOf(search.get('sort'), FILM_SORTS, DEFAULT_PARAMS.sort),
+    filters: normalizeFilters(Object.fromEntries(
+      FILTER_KEYS.map(key => [key, search.get(key) || ''])
+    ) as unknown as DashboardFilters),
+    page: page >= 1 ? Math.min(page, MAX_PAGE) : DEFAULT_PARAMS.page,
+  };
+};
+
+// Only what differs from the defaults goes into the URL, keeping links short
+export const toSearchParams = (params: DashboardParams): URLSearchParams => {
+  const search = new URLSearchParams();
+  if (params.tab !== DEFAULT_PARAMS.tab) search.set('tab', params.tab);
+  if (params.view !== DEFAULT_PARAMS.view) search.set('view', params.view);
+  if (params.sort !== DEFAULT_PARAMS.sort) search.set('sort', params.sort);
+  const filters = normalizeFilters(params.filters);
+  FILTER_KEYS.forEach(key => {
+    if (filters[key]) search.set(key, filters[key]);
+  });
+  if (params.page > 1) search.set('page', String(params.page));
+  return search;
+};
+
+export const hasFilters = (filters: DashboardFilters) => FILTER_KEYS.some(key => filters[key].trim() !== '');
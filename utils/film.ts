@@ -0,0 +1,13 @@
+// Parses the runtime formats the API has been seen to return into minutes:
+// 148, "148", "148 min", "2h 28m", "2h". Returns null when nothing sensible is found.
+export const parseRuntime = (runtime: unknown): number | null => {
+  if (typeof runtime === 'number') return Number.isFinite(runtime) && runtime >= 0 ? Math.round(runtime) : null;
+  if (typeof runtime !== 'string') return null;
+
+  const value = runtime.trim().toLowerCase();
+  const hoursAndMinutes = value.match(/^(\d+)\s*h(?:ours?|rs?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$/);
+  if (hoursAndMinutes) return parseInt(hoursAndMinutes[1]) * 60 + parseInt(hoursAndMinutes[2] || '0');
+
+  const minutes = value.match(/^(\d+)\s*(?:m|min|mins|minutes)?$/);
+  return minutes ? parseInt(minutes[1]) : null;
+};
@@ -0,0 +1,80 @@
+// Minimal promise wrapper around a single IndexedDB object store.
+// Every helper resolves to null/void instead of failing when IndexedDB is unavailable,
+// so callers can treat persistence as best effort.
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null when the database can't be opened (private browsing, blocked storage)
+const openDatabase = (dbName: string, storeName: string): Promise<IDBDatabase | null> =>
+  new Promise((resolve) => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(dbName, 1);
+    } catch {
+      resolve(null);
+      return;
+    }
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+export interface KeyValueStore<T> {
+  get: (key: string) => Promise<T | null>;
+  set: (key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  entries: () => Promise<Array<[string, T]>>;
+  clear: () => Promise<void>;
+}
+
+export const createKeyValueStore = <T>(dbName: string, storeName = 'kv'): KeyValueStore<T> => {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  const db = () => {
+    if (!dbPromise) dbPromise = openDatabase(dbName, storeName);
+    return dbPromise;
+  };
+
+  const withStore = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R | null> => {
+    if (!isIndexedDbAvailable()) return null;
+    const database = await db();
+    if (!database) return null;
+    return promisify(fn(database.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: async (key) => (await withStore<T>('readonly', s => s.get(key))) ?? null,
+    set: async (key, value) => { await withStore('readwrite', s => s.put(value, key)); },
+    remove: async (key) => { await withStore('readwrite', s => s.delete(key)); },
+    entries: async () => {
+      if (!isIndexedDbAvailable()) return [];
+      const database = await db();
+      if (!database) return [];
+      // One cursor in one transaction, so keys and values can't come from different writes
+      return new Promise((resolve, reject) => {
+        const result: Array<[string, T]> = [];
+        const request = database.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve(result);
+            return;
+          }
+          result.push([String(cursor.key), cursor.value as T]);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+    clear: async () => { await withStore('readwrite', s => s.clear()); },
+  };
+};
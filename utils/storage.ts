@@ -0,0 +1,22 @@
+// localStorage when the runtime has it, an in-memory stand-in otherwise (Node, locked-down browsers)
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const memory = new Map<string, string>();
+
+const memoryStorage: KeyValueStorage = {
+  getItem: (key) => memory.get(key) ?? null,
+  setItem: (key, value) => { memory.set(key, value); },
+  removeItem: (key) => { memory.delete(key); },
+};
+
+const hasLocalStorage = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+    return false;
+  }
+};
+
+export const storage: KeyValueStorage = hasLocalStorage() ? localStorage : memoryStorage;
@@ -1,3 +1,5 @@
+import { ValidationError } from '../services/errors';
+
 
 export const PATTERNS = {
   // Standard email format
@@ -28,4 +30,45 @@ export const validate = (value: string, type: keyof typeof PATTERNS): Validation
     isValid,
     error: isValid ? undefined : MESSAGES[type]
   };
-};
\ No newline at end of file
+};
+
+export interface ServerFieldErrors {
+  // Errors for fields the form renders, ready to put under the matching Input
+  matched: Record<string, string>;
+  // Messages for fields the form has no input for
+  unmatched: string[];
+}
+
+const capitalize = (msg: string) => msg.charAt(0).toUpperCase() + msg.slice(1);
+
+export const mapServerFieldErrors = (fields: Record<string, string>, formFields: string[]): ServerFieldErrors => {
+  const result: ServerFieldErrors = { matched: {}, unmatched: [] };
+  Object.entries(fields).forEach(([field, msg]) => {
+    if (formFields.includes(field)) result.matched[field] = capitalize(msg);
+    else result.unmatched.push(`${capitalize(field)} ${msg}`);
+  });
+  return result;
+};
+
+export interface ServerFormErrors {
+  // Merged into the form's errors and touched state, so they show under the inputs
+  errors: Record<string, string>;
+  touched: Record<string, boolean>;
+  // For the form's banner; empty when every message found its input
+  apiError: string;
+}
+
+// What a form shows for a failed submit: field errors beneath the matching inputs,
+// anything else (or any other kind of failure) in the banner
+export const serverFormErrors = (err: unknown, formFields: string[], fallback: string): ServerFormErrors => {
+  if (!(err instanceof ValidationError)) {
+    return { errors: {}, touched: {}, apiError: (err instanceof Error && err.message) || fallback };
+  }
+  const { matched, unmatched } = mapServerFieldErrors(err.fields, formFields);
+  const fields = Object.keys(matched);
+  return {
+    errors: matched,
+    touched: Object.fromEntries(fields.map(f => [f, true])),
+    apiError: unmatched.length > 0 ? unmatched.join(' ') : fields.length === 0 ? err.message : '',
+  };
+};
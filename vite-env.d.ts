@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_ENV?: string;
+  readonly VITE_API_ENV_ID?: string;
+  readonly VITE_API_ENV_LABEL?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_VERSION?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_TRANSPORT?: string;
+  readonly VITE_API_SERVER_FILTERS?: string;
+  readonly VITE_ENABLE_FAULTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}